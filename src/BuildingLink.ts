@@ -7,7 +7,60 @@
  */
 
 import { parse, HTMLElement } from "node-html-parser";
-import { parseLibrary } from "./models/index";
+import { z } from "zod";
+import {
+  ApiError,
+  AuthenticationError,
+  BuildingLinkError,
+  ConfigurationError,
+  RedirectLoopError,
+  RequestValidationError,
+  ValidationError,
+} from "./Errors";
+import type { RequestValidationIssue } from "./Errors";
+import {
+  parseLibrary,
+  parseDocumentFromTable,
+  findGridAction,
+  parseContentDisposition,
+  BuildingLinkBuildingSchema,
+  BuildingLinkOccupantSchema,
+  BuildingLinkVendorSchema,
+  BuildingLinkEventSchema,
+  BuildingLinkRsvpSchema,
+  BuildingLinkUserSchema,
+  BuildingLinkAnnouncementSchema,
+  BuildingLinkDeliverySchema,
+  BuildingLinkLibrarySchema,
+  BuildingLinkMaintenanceCategorySchema,
+  BuildingLinkMaintenanceCommentSchema,
+  BuildingLinkMaintenanceRequestSchema,
+  BuildingLinkAmenitySchema,
+  BuildingLinkAmenitySlotSchema,
+  BuildingLinkReservationSchema,
+  BuildingLinkVisitorAuthorizationSchema,
+  BuildingLinkVisitorEntryTypeSchema,
+} from "./models/index";
+import type { SessionStore, BuildingLinkSession } from "./SessionStore";
+import type { FetchImplementation } from "./Transport";
+import { buildPostback } from "./WebForms";
+import type { PostbackOptions } from "./WebForms";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, sleep } from "./Retry";
+import type { RetryPolicy, RetryEvent } from "./Retry";
+import { DeliveryWatcher } from "./DeliveryWatcher";
+import type { DeliveryWatcherOptions } from "./DeliveryWatcher";
+import { WebhookDispatcher } from "./WebhookDispatcher";
+import type { WebhookDispatcherOptions } from "./WebhookDispatcher";
+import { MqttPublisher } from "./MqttPublisher";
+import type { MqttPublisherOptions } from "./MqttPublisher";
+import { syncLibrary } from "./LibrarySync";
+import type { LibrarySyncOptions, LibrarySyncResult } from "./LibrarySync";
+import { toICalendar } from "./ICalendar";
+import { expandEvents } from "./Recurrence";
+import { endOfDay, formatZonedDate, isValidTimeZone, parseTimestamps, parseUtcDate, startOfDay } from "./TimeZone";
+import type { DateInput, WithDates } from "./TimeZone";
+import type { BuildingLinkEventOccurrence } from "./Recurrence";
+import type { ICalendarOptions } from "./ICalendar";
 
 import type {
   BuildingLinkToken,
@@ -15,10 +68,22 @@ import type {
   BuildingLinkOccupant,
   BuildingLinkVendor,
   BuildingLinkEvent,
+  BuildingLinkRsvp,
   BuildingLinkUser,
   BuildingLinkAnnouncement,
   BuildingLinkDelivery,
   BuildingLinkLibrary,
+  BuildingLinkLibraryDocument,
+  BuildingLinkDocumentStream,
+  BuildingLinkDocumentDownload,
+  BuildingLinkMaintenanceCategory,
+  BuildingLinkMaintenanceComment,
+  BuildingLinkMaintenanceRequest,
+  BuildingLinkAmenity,
+  BuildingLinkAmenitySlot,
+  BuildingLinkReservation,
+  BuildingLinkVisitorAuthorization,
+  BuildingLinkVisitorEntryType,
 } from "./models/index.ts";
 
 /** Base URL for BuildingLink web interface */
@@ -37,6 +102,18 @@ const BUILDINGLINK_HOME_PATH = "Home/DefaultNew.aspx";
  * Pulled from https://frontend-assets.buildinglink.com/js-shared-config-micro/1.0.24/js/index.js */
 const BUILDINGLINK_SUBSCRIPTION_KEY = "d56c27729c5845ba94f51efd93155a71";
 
+/** Tenant page that switches the session to another authorized property */
+const BUILDINGLINK_SWITCH_PROPERTY_PATH = "Home/SwitchProperty.aspx";
+
+/** Header selecting the property of an API request */
+const PROPERTY_HEADER = "x-buildinglink-property-id";
+
+/** Maximum number of postbacks made to reveal every row of a grid */
+const MAX_GRID_POSTBACKS = 100;
+
+/** How long before the access token expires to re-authenticate (in milliseconds) */
+const TOKEN_EXPIRY_MARGIN = 60 * 1000;
+
 /**
  * BuildingLink authentication credentials
  */
@@ -51,6 +128,233 @@ export interface BuildingLinkOptions {
   apiKey?: string;
   /** Base URL for BuildingLink instance */
   baseUrl?: string;
+  /** Store used to persist the session between client instances */
+  session?: SessionStore;
+  /**
+   * How API responses are validated against their schemas
+   * - `off`: responses are returned as is (default)
+   * - `warn`: invalid responses are logged and returned as is
+   * - `strict`: invalid responses throw a ValidationError
+   */
+  validation?: "off" | "warn" | "strict";
+  /** Fetch implementation used to make requests (defaults to the global fetch) */
+  fetch?: FetchImplementation;
+  /** Policy for retrying transient failures of idempotent requests, or false to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Legacy ID of the property to use, defaults to the session's default property */
+  propertyId?: number;
+}
+
+/**
+ * OData query parameters, e.g. `$filter`, `$expand`, `$orderby`
+ */
+export type ODataQuery = Record<string, string | number>;
+
+/**
+ * Options for requests scoped to a property
+ */
+export interface PropertyOptions {
+  /** Legacy ID of the property to query, defaults to the active property (see `useProperty()`) */
+  propertyId?: number;
+}
+
+/**
+ * Result of a query made for one of the authorized properties
+ */
+export interface PropertyResult<T> {
+  /** The property the query was made for */
+  building: BuildingLinkBuilding;
+  /** Result of the query, if it succeeded */
+  result?: T;
+  /** Error thrown by the query, if it failed */
+  error?: unknown;
+}
+
+/**
+ * Options for paginated requests
+ */
+export interface PaginateOptions extends PropertyOptions {
+  /** Signal to abort fetching further pages */
+  signal?: AbortSignal;
+  /** Maximum number of items to return */
+  limit?: number;
+}
+
+/**
+ * Date range, inclusive on both ends
+ */
+export interface DateRange {
+  /** Start of the range */
+  from?: Date;
+  /** End of the range */
+  to?: Date;
+}
+
+/**
+ * Options for filtering and ordering deliveries
+ */
+export interface DeliveryOptions extends PaginateOptions {
+  /** Which deliveries to include: still waiting, picked up, or both (defaults to open) */
+  status?: "open" | "closed" | "all";
+  /** Include delivery types that aren't shown on the tenant home page */
+  includeHiddenTypes?: boolean;
+  /** Only include deliveries opened within this range */
+  openDate?: DateRange;
+  /** Only include deliveries closed within this range */
+  closeDate?: DateRange;
+  /** Only include these deliveries */
+  ids?: number[];
+  /** Only include deliveries of these types */
+  typeIds?: number[];
+  /** Only include deliveries stored at these locations */
+  locationIds?: number[];
+  /** OData ordering, e.g. `OpenDate desc` */
+  orderBy?: string;
+  /** Return timestamps (`OpenDate`, `CloseDate`, ...) as Date objects instead of strings */
+  dates?: boolean;
+}
+
+/**
+ * Options for fetching announcements
+ */
+export interface AnnouncementOptions extends PropertyOptions {
+  /** Return timestamps (`startDate`, `createdDateTime`, ...) as Date objects instead of strings */
+  dates?: boolean;
+}
+
+/**
+ * Options for fetching events
+ */
+export interface EventOptions extends PropertyOptions {
+  /** Expand recurring events into their occurrences within the range, in the building's time zone */
+  expand?: boolean;
+  /** Return timestamps (`startDateUTC`, `endDateUTC`, ...) as Date objects instead of strings */
+  dates?: boolean;
+  /** Time zone the dates of the range are read in, defaults to the building's `timeZoneCode` */
+  timeZone?: string;
+}
+
+/**
+ * Response to an event that accepts RSVPs
+ */
+export interface RsvpOptions {
+  /** Whether you are attending (defaults to true) */
+  attending?: boolean;
+  /** Number of guests you are bringing (defaults to none) */
+  guests?: number;
+  /** Note for the building staff */
+  note?: string;
+}
+
+/**
+ * Options for filtering and ordering maintenance requests
+ */
+export interface MaintenanceOptions extends PaginateOptions {
+  /** Which requests to include: still being worked on, completed, or both (defaults to open) */
+  status?: "open" | "closed" | "all";
+  /** Only include requests in these categories */
+  categoryIds?: number[];
+  /** OData ordering, e.g. `OpenDate desc` */
+  orderBy?: string;
+}
+
+/**
+ * A photo attached to a new maintenance request
+ */
+export interface MaintenancePhoto {
+  /** Name of the file */
+  fileName: string;
+  /** Contents of the file */
+  bytes: Uint8Array;
+  /** Content type of the file (defaults to `application/octet-stream`) */
+  contentType?: string;
+}
+
+/**
+ * A new maintenance request
+ */
+export interface MaintenanceRequestInput extends PropertyOptions {
+  /** Category of the request, from `getMaintenanceCategories()` */
+  categoryId: number;
+  /** Description of the problem */
+  description: string;
+  /** Whether staff may enter the unit when nobody is home (defaults to false) */
+  permissionToEnter?: boolean;
+  /** Instructions for entering the unit (e.g. pets, alarm) */
+  entryInstructions?: string;
+  /** Photos of the problem */
+  photos?: MaintenancePhoto[];
+}
+
+/**
+ * Options for fetching the availability of an amenity
+ */
+export interface AvailabilityOptions extends PropertyOptions {
+  /** Time zone the dates of the range are read in, defaults to the building's `timeZoneCode` */
+  timeZone?: string;
+  /** Include slots that are already booked (defaults to false) */
+  includeUnavailable?: boolean;
+}
+
+/**
+ * A new amenity reservation
+ */
+export interface ReservationInput extends PropertyOptions {
+  /** Amenity to book */
+  amenityId: number;
+  /** Start of the booking, a Date or a UTC timestamp such as a slot's `startDateUTC` */
+  start: Date | string;
+  /** End of the booking, a Date or a UTC timestamp such as a slot's `endDateUTC` */
+  end: Date | string;
+  /** Number of people in the party, including you (defaults to 1) */
+  partySize?: number;
+  /** Note for the building staff */
+  notes?: string;
+}
+
+/**
+ * How long a visitor authorization lasts
+ * Dates are calendar days in the building's time zone, either `YYYY-MM-DD` strings or Dates read in that zone
+ */
+export type VisitorAuthorizationPeriod =
+  | {
+      /** A single visit */
+      type: "OneTime";
+      /** Day of the visit */
+      date: DateInput;
+    }
+  | {
+      /** Every day within a range, inclusive */
+      type: "DateRange";
+      /** First day the visitor is allowed in */
+      from: DateInput;
+      /** Last day the visitor is allowed in */
+      to: DateInput;
+    }
+  | {
+      /** Until revoked */
+      type: "Permanent";
+    };
+
+/**
+ * A new or updated visitor authorization
+ */
+export type VisitorAuthorizationInput = VisitorAuthorizationPeriod &
+  PropertyOptions & {
+    /** Name of the visitor */
+    name: string;
+    /** Note for the front desk (e.g. "Dog walker, has a key") */
+    notes?: string;
+    /** What the visitor is allowed to do, from `getVisitorEntryTypes()` (defaults to none beyond entry) */
+    entryTypeIds?: number[];
+  };
+
+/**
+ * Options for listing visitor authorizations
+ */
+export interface VisitorAuthorizationOptions extends PropertyOptions {
+  /** Include authorizations that expired or were revoked (defaults to false) */
+  includeInactive?: boolean;
 }
 
 /**
@@ -63,6 +367,91 @@ export interface BuildingLinkResponse extends Response {
   document: HTMLElement;
 }
 
+/**
+ * Collects all items from an async iterable
+ * @param iterable - The async iterable
+ * @returns Promise resolving to the items
+ */
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Orders items by their UTC start timestamp
+ * @param a - The first item
+ * @param b - The second item
+ * @returns Negative if `a` starts first, positive if `b` does
+ */
+function byStartDate(a: { startDateUTC: string }, b: { startDateUTC: string }): number {
+  return parseUtcDate(a.startDateUTC).getTime() - parseUtcDate(b.startDateUTC).getTime();
+}
+
+/**
+ * Reads the problems the API reported with a rejected request
+ * Understands ASP.NET problem details (`errors` keyed by field), lists of errors, and a single `message`
+ *
+ * @param body - The response body
+ * @returns The problems, empty if the body doesn't describe any
+ */
+function parseValidationIssues(body: string): RequestValidationIssue[] {
+  let data: { errors?: unknown; message?: unknown } | null;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return [];
+  }
+
+  const { errors, message } = data ?? {};
+
+  if (Array.isArray(errors)) {
+    return errors.map((error: Record<string, unknown> | string) => {
+      if (typeof error !== "object" || error === null) {
+        return { message: String(error) };
+      }
+
+      const field = error.field ?? error.propertyName;
+      const text = String(error.message ?? error.errorMessage ?? "");
+      return field ? { field: String(field), message: text } : { message: text };
+    });
+  }
+
+  if (errors && typeof errors === "object") {
+    return Object.entries(errors).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map((text) => ({ field, message: String(text) }))
+    );
+  }
+
+  return typeof message === "string" && message ? [{ message }] : [];
+}
+
+/**
+ * Builds the OData filter for a date range on a field
+ * @param field - The date field
+ * @param range - The date range
+ * @returns The filter clauses
+ */
+function dateRangeFilter(field: string, range: DateRange | undefined): string[] {
+  const filters: string[] = [];
+  if (range?.from) filters.push(`${field} ge ${range.from.toISOString()}`);
+  if (range?.to) filters.push(`${field} le ${range.to.toISOString()}`);
+  return filters;
+}
+
+/**
+ * Builds the OData filter matching any of the values of a field
+ * @param field - The field
+ * @param values - The values to match
+ * @returns The filter clauses
+ */
+function anyOfFilter(field: string, values: number[] | undefined): string[] {
+  if (!values?.length) return [];
+  return [`(${values.map((value) => `${field} eq ${value}`).join(" or ")})`];
+}
+
 /**
  * BuildingLink client for handling authentication and requests
  * This client manages session state, handles redirects, and maintains authentication
@@ -76,11 +465,27 @@ export class BuildingLink {
   public cookies: Record<string, string> = {};
   /** Authentication token */
   public token: BuildingLinkToken | undefined;
+  /** Time the authentication token expires (in milliseconds since epoch) */
+  public tokenExpiresAt: number | undefined;
+  /** Pending re-authentication, shared by concurrent requests */
+  private reauthenticating: Promise<BuildingLinkToken | undefined> | undefined;
+  /** Pending session restore, started before the first request */
+  private restoring: Promise<void> | undefined;
+  /** Authorized properties, fetched once to look up time zones */
+  private buildings: Promise<BuildingLinkBuilding[]> | undefined;
+  /** Property the tenant interface is switched to, undefined for the session's default */
+  private pagePropertyId: number | undefined;
+  /** Tenant work in progress, so property switches don't interleave */
+  private tenantQueue: Promise<unknown> = Promise.resolve();
+
+  /** Legacy ID of the active property, undefined for the session's default property */
+  public propertyId: number | undefined;
 
   /** Client hooks */
   public hooks: {
     requests: Array<(url: string, request: RequestInit) => Promise<RequestInit>>;
     responses: Array<(response: BuildingLinkResponse) => Promise<BuildingLinkResponse>>;
+    retries: Array<(event: RetryEvent) => Promise<void>>;
   };
 
   /**
@@ -92,13 +497,17 @@ export class BuildingLink {
     this.options = {
       baseUrl: BUILDINGLINK_BASE_URL,
       subscriptionKey: BUILDINGLINK_SUBSCRIPTION_KEY,
+      validation: "off",
       ...options,
     };
 
+    this.propertyId = options.propertyId;
+
     // Default hooks
     this.hooks = {
       requests: [this.addHistory, this.addCookies],
       responses: [this.updateCookies, this.handleHTMLResponse, this.handleRedirects, this.handleAuthentication],
+      retries: [],
     };
   }
 
@@ -110,6 +519,109 @@ export class BuildingLink {
     return "bl.auth.cookie.oidc" in this.cookies;
   }
 
+  /**
+   * Checks if the access token is expired or about to expire
+   * @returns {boolean} True if the token expires within the expiry margin, false otherwise
+   */
+  get isTokenExpiring(): boolean {
+    return this.tokenExpiresAt !== undefined && Date.now() >= this.tokenExpiresAt - TOKEN_EXPIRY_MARGIN;
+  }
+
+  /**
+   * Gets the retry policy, with defaults applied
+   * @returns {RetryPolicy | undefined} The retry policy, or undefined if retries are disabled
+   */
+  get retryPolicy(): RetryPolicy | undefined {
+    if (this.options.retry === false) {
+      return undefined;
+    }
+
+    return { ...DEFAULT_RETRY_POLICY, ...this.options.retry };
+  }
+
+  /**
+   * Exports the current session state
+   * @returns {BuildingLinkSession} The session cookies and token
+   */
+  exportSession(): BuildingLinkSession {
+    return { cookies: { ...this.cookies }, token: this.token, tokenExpiresAt: this.tokenExpiresAt };
+  }
+
+  /**
+   * Imports a previously exported session
+   * @param session - The session cookies and token
+   */
+  importSession(session: BuildingLinkSession): void {
+    this.pagePropertyId = undefined;
+    this.cookies = { ...session.cookies };
+    this.token = session.token;
+    this.tokenExpiresAt = session.tokenExpiresAt;
+  }
+
+  /**
+   * Restores the session from the session store
+   * Only loads the store once, subsequent calls resolve immediately
+   * @returns {Promise<void>} Promise resolving once the session is restored
+   */
+  restoreSession(): Promise<void> {
+    this.restoring ??= (async () => {
+      const session = await this.options.session?.load();
+      if (session) this.importSession(session);
+    })();
+
+    return this.restoring;
+  }
+
+  /**
+   * Saves the current session to the session store
+   * @returns {Promise<void>} Promise resolving once the session is saved
+   */
+  async saveSession(): Promise<void> {
+    await this.options.session?.save(this.exportSession());
+  }
+
+  /**
+   * Discards the current session and removes it from the session store
+   * @returns {Promise<void>} Promise resolving once the session is cleared
+   */
+  async clearSession(): Promise<void> {
+    this.pagePropertyId = undefined;
+    this.cookies = {};
+    this.token = undefined;
+    this.tokenExpiresAt = undefined;
+    await this.options.session?.clear();
+  }
+
+  /**
+   * Drops the authentication cookie and token, keeping the rest of the session
+   * so the next request goes through the login flow again
+   */
+  private dropAuthentication(): void {
+    // A new session starts on its default property
+    this.pagePropertyId = undefined;
+    delete this.cookies["bl.auth.cookie.oidc"];
+    this.token = undefined;
+    this.tokenExpiresAt = undefined;
+  }
+
+  /**
+   * Re-authenticates to obtain a fresh access token
+   * Concurrent callers share the same re-authentication
+   * @returns Promise resolving to the new authentication token
+   */
+  reauthenticate(): Promise<BuildingLinkToken | undefined> {
+    this.reauthenticating ??= (async () => {
+      try {
+        this.dropAuthentication();
+        return await this.login();
+      } finally {
+        this.reauthenticating = undefined;
+      }
+    })();
+
+    return this.reauthenticating;
+  }
+
   /**
    * Adds session cookies to the request headers
    * @param url - URL of the request
@@ -135,6 +647,7 @@ export class BuildingLink {
    * @param url - URL of the request
    * @param request - Request object to modify
    * @returns {Promise<RequestInit>} Promise resolving to the modified request
+   * @throws RedirectLoopError if the URL was already visited
    */
   private addHistory(url: string, request: RequestInit): Promise<RequestInit> {
     const method = request.method || "GET";
@@ -150,7 +663,7 @@ export class BuildingLink {
 
     // Check for circular redirects
     if (this.history.includes(histryEntry)) {
-      throw new Error(`Circular redirect detected: ${histryEntry}`);
+      throw new RedirectLoopError([...this.history, histryEntry]);
     } else {
       this.history.push(histryEntry); // Add to history
     }
@@ -163,13 +676,20 @@ export class BuildingLink {
    * @param response - Response object containing cookies
    * @returns {Promise<BuildingLinkResponse>} Promise resolving to the original response
    */
-  private updateCookies(response: BuildingLinkResponse): Promise<BuildingLinkResponse> {
-    response.headers.getSetCookie().forEach((c) => {
+  private async updateCookies(response: BuildingLinkResponse): Promise<BuildingLinkResponse> {
+    const cookies = response.headers.getSetCookie();
+
+    cookies.forEach((c) => {
       const [name, value] = c.split(";")[0].split("=");
       this.cookies[name.trim()] = decodeURIComponent(value.trim());
     });
 
-    return Promise.resolve(response);
+    // Persist the updated session
+    if (cookies.length) {
+      await this.saveSession();
+    }
+
+    return response;
   }
 
   /**
@@ -179,13 +699,25 @@ export class BuildingLink {
    * @param response - Response object containing potential login form
    * @param text - HTML content of the response
    * @returns Promise resolving to the authenticated response
-   * @throws Error if login fa
+   * @throws AuthenticationError if login fails, or if a non-HTML response (e.g. API JSON) arrives without a session
    * @private
    */
   private async handleAuthentication(response: BuildingLinkResponse): Promise<BuildingLinkResponse> {
     // If already authenticated, return
+    // unless BuildingLink rejected the session and sent us back to the login form
     if (this.isAuthenticated) {
-      return response;
+      if (!response.document?.querySelector('input[name="Password"]')) {
+        return response;
+      }
+
+      // Keep the cookies the login form relies on, but drop the stale authentication
+      this.dropAuthentication();
+      await this.options.session?.clear();
+    }
+
+    // JSON and other non-HTML responses can't be the login form, so there is no way to log in from here
+    if (!response.document) {
+      throw new AuthenticationError(`expected the login form, got a non-HTML response from ${response.url}`);
     }
 
     // Get form action
@@ -210,6 +742,12 @@ export class BuildingLink {
     // If submitting to OIDC endpoint, store token
     if (action.includes("oidc")) {
       this.token = formData as BuildingLinkToken;
+
+      // expires_in is relative to now, so track when the token actually expires
+      const expiresIn = parseInt(formData.expires_in);
+      this.tokenExpiresAt = isNaN(expiresIn) ? undefined : Date.now() + expiresIn * 1000;
+
+      await this.saveSession();
     }
 
     // Submit the form
@@ -223,8 +761,8 @@ export class BuildingLink {
     // If login failed, throw error
     if (formResponse.status !== 200) {
       const { html } = formResponse as BuildingLinkResponse;
-      const errorMessage = html.match(/<div class="validation-summary-errors">(.*?)<\/div>/)?.[1];
-      throw new Error(`Failed to login: ${errorMessage}`);
+      const errorMessage = html?.match(/<div class="validation-summary-errors">(.*?)<\/div>/)?.[1];
+      throw new AuthenticationError(errorMessage);
     }
 
     return formResponse;
@@ -297,18 +835,23 @@ export class BuildingLink {
    * @param url - Target URL for the request
    * @param options - Fetch API options
    * @returns Promise resolving to an enhanced Response object
+   * @throws RedirectLoopError if the request is redirected in a loop
+   * @throws AuthenticationError if the login fails
    */
   async fetch(url: string | URL, options: RequestInit = {}): Promise<BuildingLinkResponse> {
     // Convert URL to absolute URL if relative
     url = new URL(url, BUILDINGLINK_BASE_URL).toString();
 
+    // Restore a persisted session before the first request
+    await this.restoreSession();
+
     // Apply request hooks
     for (const fn of this.hooks.requests) {
       options = await fn.bind(this)(url, options);
     }
 
     // Make the request
-    let response = (await fetch(url, { ...options, redirect: "manual" })) as BuildingLinkResponse;
+    let response = (await this.send(url, { ...options, redirect: "manual" })) as BuildingLinkResponse;
 
     // Apply response hooks
     for (const fn of this.hooks.responses) {
@@ -318,39 +861,233 @@ export class BuildingLink {
     return response;
   }
 
+  /**
+   * Sends a request with the fetch implementation
+   * Idempotent requests that fail with a transient error are retried according to the retry policy
+   *
+   * @param url - Target URL for the request
+   * @param options - Fetch API options
+   * @returns Promise resolving to the raw Response object
+   * @private
+   */
+  private async send(url: string, options: RequestInit): Promise<Response> {
+    const fetchImplementation = this.options.fetch ?? globalThis.fetch;
+    const policy = this.retryPolicy;
+    const method = (options.method || "GET").toUpperCase();
+    const maxAttempts = policy?.methods.includes(method) ? policy.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | undefined;
+      let error: unknown;
+
+      try {
+        response = await fetchImplementation(url, options);
+      } catch (e) {
+        error = e;
+      }
+
+      // Network failures surface as TypeErrors from fetch
+      const isTransient = response ? policy?.statuses.includes(response.status) : error instanceof TypeError;
+
+      if (!policy || !isTransient || attempt >= maxAttempts) {
+        if (!response) throw error;
+        return response;
+      }
+
+      const delay = getRetryDelay(policy, attempt, response);
+
+      // Notify retry hooks
+      for (const fn of this.hooks.retries) {
+        await fn.bind(this)({ url, method, attempt, delay, response, error });
+      }
+
+      // Release the failed response before trying again
+      await response?.body?.cancel().catch(() => {});
+
+      // Stop waiting, and don't retry, once the caller aborts the request
+      await sleep(delay, options.signal);
+    }
+  }
+
+  /**
+   * Posts back an ASP.NET WebForms page, like a browser does when a control is used
+   * Replays the page's hidden state (`__VIEWSTATE`, `__EVENTVALIDATION`, ...) and form fields,
+   * sets `__EVENTTARGET` / `__EVENTARGUMENT`, and merges in the given fields
+   *
+   * @param response - The page to post back, as returned by `page()` or a previous postback
+   * @param options - Event target, argument and fields of the postback
+   * @returns Promise resolving to the page returned by the postback
+   * @throws BuildingLinkError if the response isn't an HTML page with a form
+   */
+  async postback(response: BuildingLinkResponse, options: PostbackOptions = {}): Promise<BuildingLinkResponse> {
+    const request = response.document && buildPostback(response.document, response.url, options);
+
+    if (!request) {
+      throw new BuildingLinkError(`No form to post back on ${response.url}`);
+    }
+
+    return this.fetch(request.action, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: request.body,
+    });
+  }
+
   /**
    * Fetches a resource from the BuildingLink tenant interface
+   * The tenant session is switched to the requested property first, if it isn't already.
+   *
    * @param path - Path relative to the tenant interface
+   * @param options - Fetch API options, and the property to fetch the page for
    * @returns Promise resolving to an enhanced Response object
+   * @throws ConfigurationError if an earlier call switched the session and no property is given
+   */
+  page(path: string, options: RequestInit & PropertyOptions = {}): Promise<BuildingLinkResponse> {
+    const { propertyId = this.propertyId, ...init } = options;
+    return this.withTenantProperty(propertyId, () => this.fetch(`${BUILDINGLINK_TENANT_PATH}/${path}`, init));
+  }
+
+  /**
+   * Runs work on the tenant interface once the session is on a property, one piece of work at a time
+   * The property is server-side session state, so a switch and the pages fetched after it
+   * (e.g. a chain of postbacks) must not interleave with work for another property.
+   *
+   * @param propertyId - Legacy ID of the property, undefined to keep the session's property
+   * @param work - Requests to make on the property
+   * @returns Promise resolving to the result of the work
    */
-  page(path: string, options: RequestInit = {}): Promise<BuildingLinkResponse> {
-    return this.fetch(`${BUILDINGLINK_TENANT_PATH}/${path}`, options);
+  private withTenantProperty<T>(propertyId: number | undefined, work: () => Promise<T>): Promise<T> {
+    const run = this.tenantQueue.then(async () => {
+      if (propertyId !== undefined && propertyId !== this.pagePropertyId) {
+        await this.switchProperty(propertyId);
+      }
+
+      // Which property a session starts on isn't known, so there is no switching back to it
+      if (propertyId === undefined && this.pagePropertyId !== undefined) {
+        throw new ConfigurationError(
+          `The tenant session was switched to property ${this.pagePropertyId} by an earlier call, ` +
+            "pass a propertyId or call useProperty()"
+        );
+      }
+
+      return work();
+    });
+
+    this.tenantQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Switches the tenant session to another authorized property
+   * The tenant interface keeps the property in the server session, so it applies to every later page.
+   *
+   * @param propertyId - Legacy ID of the property
+   * @returns Promise resolving once the session is switched
+   */
+  private async switchProperty(propertyId: number): Promise<void> {
+    const query = new URLSearchParams({ propertyId: String(propertyId) });
+    await this.fetch(`${BUILDINGLINK_TENANT_PATH}/${BUILDINGLINK_SWITCH_PROPERTY_PATH}?${query.toString()}`);
+    this.pagePropertyId = propertyId;
   }
 
   /**
    * Fetches a resource from the BuildingLink API
    * @param path - Path relative to the BuildingLink API
+   * @param options - Fetch API options, and the property to query
    * @returns Promise resolving to an enhanced Response object
+   * @throws ApiError if the API responds with an error status
    */
-  api(path: string, options: RequestInit = {}): Promise<BuildingLinkResponse> {
+  api(path: string, options: RequestInit & PropertyOptions = {}): Promise<BuildingLinkResponse> {
+    const { propertyId = this.propertyId, ...init } = options;
     const url = new URL(path, BUILDINGLINK_API_BASE_URL);
 
     // Add API authentication headers
-    options.headers = {
-      ...options.headers,
-      Authorization: `Bearer ${this.token?.access_token}`,
+    init.headers = {
+      ...init.headers,
       "ocp-apim-subscription-key": this.options.subscriptionKey!,
+      ...(propertyId !== undefined ? { [PROPERTY_HEADER]: String(propertyId) } : {}),
     };
 
-    return this.fetch(url, options);
+    return this.fetchWithToken(url, init);
   }
 
   /**
-   * Fetches a resource from the BuildingLink tenant interface
-   * @param path - Path relative to the tenant interface
+   * Makes a request authorized with the bearer token
+   * Re-authenticates shortly before the token expires, and once more if the request is rejected
+   *
+   * @param url - Target URL for the request
+   * @param options - Fetch API options
    * @returns Promise resolving to an enhanced Response object
+   * @throws ApiError if the request fails after re-authenticating
+   */
+  private async fetchWithToken(url: string | URL, options: RequestInit = {}): Promise<BuildingLinkResponse> {
+    if (this.isTokenExpiring) {
+      await this.reauthenticate();
+    }
+
+    const send = () =>
+      this.fetch(url, {
+        ...options,
+        headers: { ...options.headers, Authorization: `Bearer ${this.token?.access_token}` },
+      });
+
+    let response = await send();
+
+    // The token was rejected, so get a new one and replay the request
+    if (response.status === 401) {
+      await this.reauthenticate();
+      response = await send();
+    }
+
+    // Surface error responses instead of letting the caller parse them
+    if (response.status >= 400) {
+      const body = response.html ?? (await response.text().catch(() => ""));
+      const issues = [400, 422].includes(response.status) ? parseValidationIssues(body) : [];
+
+      if (issues.length) {
+        throw new RequestValidationError(response.status, response.url || url.toString(), body, issues);
+      }
+
+      throw new ApiError(response.status, response.url || url.toString(), body);
+    }
+
+    return response;
+  }
+
+  /**
+   * Validates a response payload against its schema
+   * @param schema - Schema describing the payload
+   * @param data - The response payload
+   * @param path - Path of the endpoint that returned the payload
+   * @returns The parsed payload, or the original payload if validation is off or failed in warn mode
+   * @throws ValidationError if the payload is invalid in strict mode
+   */
+  private validate<T extends z.ZodTypeAny>(schema: T, data: unknown, path: string): z.infer<T> {
+    if (this.options.validation === "off") {
+      return data;
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    const error = new ValidationError(path, result.error.issues);
+    if (this.options.validation === "strict") {
+      throw error;
+    }
+
+    console.warn(error.message);
+    return data;
+  }
+
+  /**
+   * Logs in to BuildingLink, restoring a persisted session if one is available
+   * @returns Promise resolving to the authentication token
    */
   async login(): Promise<BuildingLinkToken | undefined> {
+    await this.restoreSession();
+
     if (!this.isAuthenticated) {
       await this.page(BUILDINGLINK_HOME_PATH);
     }
@@ -360,84 +1097,292 @@ export class BuildingLink {
 
   /**
    * Fetches the library from the BuildingLink tenant interface
+   * @param options - Property to fetch the library of
+   * @returns Promise resolving to the library
+   */
+  getLibrary(options: PropertyOptions = {}): Promise<BuildingLinkLibrary> {
+    const { propertyId = this.propertyId } = options;
+
+    // Hold the tenant session on the property for the whole chain of postbacks
+    return this.withTenantProperty(propertyId, () => this.collectLibrary());
+  }
+
+  /**
+   * Fetches the library page and posts back until every document is shown
    * @returns Promise resolving to the library
    */
-  async getLibrary(): Promise<BuildingLinkLibrary> {
-    const { document, url } = await this.page("Library/Library.aspx");
-    return parseLibrary(document, url);
+  private async collectLibrary(): Promise<BuildingLinkLibrary> {
+    const path = "Library/Library.aspx";
+    let response = await this.fetch(`${BUILDINGLINK_TENANT_PATH}/${path}`);
+    const library = parseLibrary(response.document, response.url);
+
+    // Large libraries page their grids or collapse groups, so post back until every document is shown
+    const grids = [
+      ["#GridAptDocumentsCon", library.aptDocuments],
+      ["#LibraryGridView", library.buildingDocuments],
+    ] as const;
+
+    for (const [selector, documents] of grids) {
+      const seenActions = new Set<string>();
+      const seenFiles = new Set(documents.map((doc) => doc.fileId));
+
+      for (let i = 0; i < MAX_GRID_POSTBACKS; i++) {
+        const action = findGridAction(response.document?.querySelector(selector) || undefined);
+
+        // Stop once every row is shown, or when a postback didn't change the grid
+        if (!action || seenActions.has(action.key)) break;
+        seenActions.add(action.key);
+
+        response = await this.postback(response, action);
+        const table = response.document?.querySelector(selector) || undefined;
+
+        for (const doc of parseDocumentFromTable({ table, url: response.url })) {
+          if (seenFiles.has(doc.fileId)) continue;
+          seenFiles.add(doc.fileId);
+          documents.push(doc);
+        }
+      }
+    }
+
+    return this.validate(BuildingLinkLibrarySchema, library, path);
+  }
+
+  /**
+   * Mirrors the library to a local directory, organised by category
+   * Only new documents and documents revised since the last sync are downloaded
+   *
+   * @param targetDir - Directory to mirror the library to
+   * @param options - Sync options
+   * @returns Promise resolving to the added, updated, unchanged and removed documents
+   */
+  syncLibrary(targetDir: string, options: LibrarySyncOptions = {}): Promise<LibrarySyncResult> {
+    return syncLibrary(this, targetDir, options);
+  }
+
+  /**
+   * Streams a library document using the authenticated session
+   * Useful for large documents that shouldn't be buffered in memory
+   *
+   * @param doc - The library document
+   * @returns Promise resolving to the document stream and its server-provided metadata
+   * @throws BuildingLinkError if the document has no download URL
+   * @throws ApiError if the download fails
+   */
+  async streamDocument(doc: BuildingLinkLibraryDocument): Promise<BuildingLinkDocumentStream> {
+    if (!doc.downloadUrl) {
+      throw new BuildingLinkError(`Document "${doc.title}" has no download URL`);
+    }
+
+    const response = await this.fetch(doc.downloadUrl);
+
+    // An HTML page instead of the file means the download was refused (e.g. an error page)
+    if (response.status >= 400 || response.html !== undefined || !response.body) {
+      throw new ApiError(response.status, response.url || doc.downloadUrl, response.html ?? "");
+    }
+
+    const size = parseInt(response.headers.get("content-length") || "");
+
+    return {
+      stream: response.body,
+      fileName: parseContentDisposition(response.headers.get("content-disposition")) ?? doc.fileName,
+      contentType: response.headers.get("content-type") || undefined,
+      size: isNaN(size) ? undefined : size,
+    };
+  }
+
+  /**
+   * Downloads a library document using the authenticated session
+   * @param doc - The library document
+   * @returns Promise resolving to a copy of the document with its bytes and server-provided filename filled in
+   * @throws BuildingLinkError if the document has no download URL
+   * @throws ApiError if the download fails
+   */
+  async downloadDocument(doc: BuildingLinkLibraryDocument): Promise<BuildingLinkDocumentDownload> {
+    const { stream, ...metadata } = await this.streamDocument(doc);
+    const fileBytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    return { ...doc, ...metadata, fileBytes };
   }
 
   /**
    * Fetches the current occupant from the BuildingLink API
+   * @param options - Property to fetch the occupant of
    * @returns Promise resolving to the current occupant
    */
-  async getOccupant(): Promise<BuildingLinkOccupant> {
+  async getOccupant(options: PropertyOptions = {}): Promise<BuildingLinkOccupant> {
     const url = "Properties/AuthenticatedUser/v1/property/occupant/get";
-    const response = await this.api(url);
-    return await response.json();
+    const response = await this.api(url, options);
+    return this.validate(BuildingLinkOccupantSchema, await response.json(), url);
   }
 
   /**
    * Fetches the current user from the BuildingLink API
    * @returns Promise resolving to the current user
+   * @throws ConfigurationError if no API key is configured
    */
   async getUser(): Promise<BuildingLinkUser> {
     const url = "https://users.us1.buildinglink.com/users/authenticated";
 
     if (!this.options.apiKey) {
-      throw new Error("API key is required");
+      throw new ConfigurationError("API key is required");
     }
 
-    const response = await this.fetch(url, {
+    const response = await this.fetchWithToken(url, {
       headers: {
         "x-api-key": this.options.apiKey!,
-        Authorization: `Bearer ${this.token?.access_token}`,
       },
     });
 
-    return response.json();
+    return this.validate(BuildingLinkUserSchema, await response.json(), url);
   }
 
   /**
    * Fetches events from the BuildingLink API
+   * The range covers whole days in the building's time zone, from the start of `from` to the end of `to`.
+   *
+   * @param from - The first day of the events (`YYYY-MM-DD`, or a Date read in the building's time zone)
+   * @param to - The last day of the events (`YYYY-MM-DD`, or a Date read in the building's time zone)
+   * @param options - Pass `expand` to get the occurrences of recurring events, `dates` to get Date timestamps
+   * @returns Promise resolving to the events, or their occurrences ordered by start
+   */
+  async getEvents(
+    from: DateInput,
+    to: DateInput,
+    options: EventOptions & { expand: true; dates: true }
+  ): Promise<WithDates<BuildingLinkEventOccurrence>[]>;
+  async getEvents(
+    from: DateInput,
+    to: DateInput,
+    options: EventOptions & { expand: true }
+  ): Promise<BuildingLinkEventOccurrence[]>;
+  async getEvents(
+    from: DateInput,
+    to: DateInput,
+    options: EventOptions & { dates: true }
+  ): Promise<WithDates<BuildingLinkEvent>[]>;
+  async getEvents(from: DateInput, to: DateInput, options?: EventOptions): Promise<BuildingLinkEvent[]>;
+  async getEvents(
+    from: DateInput,
+    to: DateInput,
+    options: EventOptions = {}
+  ): Promise<(BuildingLinkEvent | WithDates<BuildingLinkEvent>)[]> {
+    const { propertyId = this.propertyId } = options;
+    const timeZone = await this.getTimeZone(propertyId, options.timeZone);
+    const range = { from: startOfDay(from, timeZone), to: endOfDay(to, timeZone) };
+
+    const params = new URLSearchParams({ fromDateTime: range.from.toISOString(), toDateTime: range.to.toISOString() });
+    const path = "Calendar/Resident/v2/resident/events/filteredeventsrsvp";
+    const response = await this.api(`${path}?${params.toString()}`, { propertyId });
+
+    let events: BuildingLinkEvent[] = this.validate(z.array(BuildingLinkEventSchema), await response.json(), path);
+
+    if (options.expand) {
+      events = expandEvents(events, { ...range, timeZone });
+    }
+
+    return options.dates ? parseTimestamps(events) : events;
+  }
+
+  /**
+   * Exports events from the BuildingLink API as an iCalendar (.ics) document
+   * Times are written in the time zone of the building the events belong to.
+   *
    * @param from - The start date of the events
-   * @param toDate - The end date of the events
-   * @returns Promise resolving to the events
+   * @param to - The end date of the events
+   * @param options - Property to export the events of, and overrides for the calendar's time zone and name
+   * @returns Promise resolving to the iCalendar document
+   */
+  async getEventsCalendar(
+    from: DateInput,
+    to: DateInput,
+    options: ICalendarOptions & PropertyOptions = {}
+  ): Promise<string> {
+    const { propertyId = this.propertyId, ...calendar } = options;
+    const events = await this.getEvents(from, to, { propertyId });
+    const building = await this.getBuilding(events[0]?.propertyId ?? propertyId);
+    const timeZone = calendar.timeZone ?? building?.timeZoneCode;
+
+    return toICalendar(events, {
+      name: building && `${building.name} Events`,
+      ...calendar,
+      timeZone: timeZone && this.checkTimeZone(timeZone),
+    });
+  }
+
+  /**
+   * Responds to an event that accepts RSVPs, replacing any earlier response
+   * @param eventId - ID of the event
+   * @param options - Attendance, number of guests and note
+   * @returns Promise resolving to the recorded RSVP
+   * @throws ApiError if the event doesn't accept RSVPs or the response is rejected
    */
-  async getEvents(from: Date, to: Date): Promise<BuildingLinkEvent[]> {
-    const fromDateTime = from.toISOString();
+  async rsvp(eventId: string, options: RsvpOptions = {}): Promise<BuildingLinkRsvp> {
+    const { attending = true, guests = 0, note } = options;
+    const path = `Calendar/Resident/v2/resident/events/${encodeURIComponent(eventId)}/rsvp`;
 
-    // Set to the end of the day
-    to.setHours(23, 59, 59, 999);
-    const toDateTime = to.toISOString();
+    const response = await this.api(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ attending, numberOfGuests: guests, note: note ?? null }),
+    });
 
-    const params = new URLSearchParams({ fromDateTime, toDateTime });
-    const url = `Calendar/Resident/v2/resident/events/filteredeventsrsvp?${params.toString()}`;
-    const response = await this.api(url);
-    return await response.json();
+    return this.validate(BuildingLinkRsvpSchema, await response.json(), path);
+  }
+
+  /**
+   * Withdraws the response to an event
+   * @param eventId - ID of the event
+   * @returns Promise resolving once the RSVP is removed
+   */
+  async cancelRsvp(eventId: string): Promise<void> {
+    const path = `Calendar/Resident/v2/resident/events/${encodeURIComponent(eventId)}/rsvp`;
+    await this.api(path, { method: "DELETE" });
+  }
+
+  /**
+   * Fetches the events the current occupant has responded to, whether attending or not
+   * @param from - The start date of the events
+   * @param to - The end date of the events
+   * @param options - Property to fetch the events of
+   * @returns Promise resolving to the events, with the occupant's RSVP in `rsvps`
+   */
+  async getRsvpEvents(from: DateInput, to: DateInput, options: PropertyOptions = {}): Promise<BuildingLinkEvent[]> {
+    const [events, occupant] = await Promise.all([this.getEvents(from, to, options), this.getOccupant(options)]);
+
+    return events
+      .map((event) => ({ ...event, rsvps: event.rsvps.filter(({ occupantId }) => occupantId === occupant.id) }))
+      .filter(({ rsvps }) => rsvps.length);
   }
 
   /**
    * Fetches the active announcements from the BuildingLink API
+   * @param options - Property to fetch the announcements of, and `dates` to get Date timestamps
    * @returns Promise resolving to the active announcements
    */
-  async getAnnouncements(): Promise<BuildingLinkAnnouncement[]> {
+  async getAnnouncements(
+    options: AnnouncementOptions & { dates: true }
+  ): Promise<WithDates<BuildingLinkAnnouncement>[]>;
+  async getAnnouncements(options?: AnnouncementOptions): Promise<BuildingLinkAnnouncement[]>;
+  async getAnnouncements(
+    options: AnnouncementOptions = {}
+  ): Promise<(BuildingLinkAnnouncement | WithDates<BuildingLinkAnnouncement>)[]> {
+    const { dates, ...init } = options;
     const url = "ContentCreator/Resident/v1/announcements/active";
-    const response = await this.api(url);
-    return response.json();
+    const response = await this.api(url, init);
+    const announcements = this.validate(z.array(BuildingLinkAnnouncementSchema), await response.json(), url);
+    return dates ? parseTimestamps(announcements) : announcements;
   }
 
   /**
-   * Fetches the active deliveries from the BuildingLink API
-   * @returns Promise resolving to the active deliveries
+   * Streams items from a paginated OData endpoint of the BuildingLink API
+   * Pages are fetched as the items are consumed, following `@odata.nextLink`
+   *
+   * @param path - Path relative to the BuildingLink API
+   * @param query - OData query parameters (e.g. `$filter`, `$expand`)
+   * @param options - Pagination options
+   * @returns Async generator yielding the items of every page
    */
-  async getDeliveries(): Promise<BuildingLinkDelivery[]> {
-    // set the initial query
-    const query = {
-      $expand: "Location,Type,Authorizations",
-      $filter: "IsOpen eq true and Type/IsShownOnTenantHomePage eq true",
-      $skip: 0,
-    };
+  async *paginate<T = unknown>(path: string, query: ODataQuery = {}, options: PaginateOptions = {}): AsyncGenerator<T> {
+    const { signal, limit = Infinity, propertyId } = options;
 
     // build the query string
     // can't use URLSearchParams because of the $
@@ -445,58 +1390,449 @@ export class BuildingLink {
       .map(([key, value]) => `${key}=${value}`)
       .join("&");
 
-    let url = `/EventLog/Resident/v1/Events?${queryString}`;
-    const deliveries: BuildingLinkDelivery[] = [];
+    let url: string | undefined = queryString ? `${path}?${queryString}` : path;
+    let count = 0;
 
-    while (url) {
-      const response = await this.api(url);
+    while (url && count < limit) {
+      signal?.throwIfAborted();
+
+      const response = await this.api(url, { signal, propertyId });
       const data = await response.json();
 
-      deliveries.push(...data.value);
+      for (const item of data.value) {
+        if (count >= limit) return;
+        count++;
+        yield item;
+      }
 
-      // if there's a next page, fetch it
+      // @odata.nextLink is the next page of results
       url = data["@odata.nextLink"];
     }
+  }
+
+  /**
+   * Streams deliveries from the BuildingLink API
+   * @param options - Filtering, ordering and pagination options (defaults to the open deliveries),
+   * and `dates` to get Date timestamps
+   * @returns Async generator yielding the deliveries
+   */
+  iterateDeliveries(options: DeliveryOptions & { dates: true }): AsyncGenerator<WithDates<BuildingLinkDelivery>>;
+  iterateDeliveries(options?: DeliveryOptions): AsyncGenerator<BuildingLinkDelivery>;
+  async *iterateDeliveries(
+    options: DeliveryOptions = {}
+  ): AsyncGenerator<BuildingLinkDelivery | WithDates<BuildingLinkDelivery>> {
+    const { status = "open", includeHiddenTypes = false, orderBy } = options;
+    const path = "/EventLog/Resident/v1/Events";
+
+    const filters = [
+      ...(status === "all" ? [] : [`IsOpen eq ${status === "open"}`]),
+      ...(includeHiddenTypes ? [] : ["Type/IsShownOnTenantHomePage eq true"]),
+      ...dateRangeFilter("OpenDate", options.openDate),
+      ...dateRangeFilter("CloseDate", options.closeDate),
+      ...anyOfFilter("Id", options.ids),
+      ...anyOfFilter("TypeId", options.typeIds),
+      ...anyOfFilter("LocationId", options.locationIds),
+    ];
+
+    const query: ODataQuery = {
+      $expand: "Location,Type,Authorizations",
+      ...(filters.length ? { $filter: filters.join(" and ") } : {}),
+      ...(orderBy ? { $orderby: orderBy } : {}),
+      $skip: 0,
+    };
+
+    for await (const item of this.paginate(path, query, options)) {
+      const delivery = this.validate(BuildingLinkDeliverySchema, item, path);
+      yield options.dates ? parseTimestamps(delivery) : delivery;
+    }
+  }
 
-    return deliveries;
+  /**
+   * Fetches deliveries from the BuildingLink API
+   * @param options - Filtering, ordering and pagination options (defaults to the open deliveries),
+   * and `dates` to get Date timestamps
+   * @returns Promise resolving to the deliveries
+   */
+  async getDeliveries(options: DeliveryOptions & { dates: true }): Promise<WithDates<BuildingLinkDelivery>[]>;
+  async getDeliveries(options?: DeliveryOptions): Promise<BuildingLinkDelivery[]>;
+  async getDeliveries(
+    options: DeliveryOptions = {}
+  ): Promise<(BuildingLinkDelivery | WithDates<BuildingLinkDelivery>)[]> {
+    return collect(this.iterateDeliveries(options));
   }
 
   /**
-   * Fetches the preference vendors from the BuildingLink API
-   * @returns Promise resolving to the preference vendors
+   * Watches the open deliveries, emitting `arrived`, `updated` and `closed` events
+   * @param options - Polling interval, state store and delivery filters
+   * @returns The running watcher, call `stop()` to stop polling
    */
-  async getVendors(): Promise<BuildingLinkVendor[]> {
-    const vendors: BuildingLinkVendor[] = [];
+  watchDeliveries(options: DeliveryWatcherOptions = {}): DeliveryWatcher {
+    const watcher = new DeliveryWatcher(this, options);
+    watcher.start();
+    return watcher;
+  }
 
-    // set the initial query
-    const query = {
-      $expand: "Provider($expand%3DCategory,Properties,State)",
+  /**
+   * Sends new deliveries, announcements and events to webhooks as signed JSON payloads
+   * @param options - Targets, polling interval, cursor store and retry options
+   * @returns The running dispatcher, call `stop()` to stop polling
+   */
+  dispatchWebhooks(options: WebhookDispatcherOptions): WebhookDispatcher {
+    const dispatcher = new WebhookDispatcher(this, options);
+    dispatcher.start();
+    return dispatcher;
+  }
+
+  /**
+   * Publishes open deliveries, the latest high-priority announcement and the next event to MQTT,
+   * with Home Assistant discovery messages
+   * @param options - MQTT client, topics and polling options
+   * @returns The running publisher, call `stop()` to stop polling
+   */
+  publishToMqtt(options: MqttPublisherOptions): MqttPublisher {
+    const publisher = new MqttPublisher(this, options);
+    publisher.start();
+    return publisher;
+  }
+
+  /**
+   * Fetches the categories residents can file maintenance requests in
+   * @param options - Property to fetch the categories of
+   * @returns Promise resolving to the active categories
+   */
+  async getMaintenanceCategories(options: PropertyOptions = {}): Promise<BuildingLinkMaintenanceCategory[]> {
+    const path = "Maintenance/Resident/v1/Categories";
+    const query = { $filter: "IsActive eq true", $orderby: "Order", $skip: 0 };
+    const categories = await collect(this.paginate(path, query, options));
+    return this.validate(z.array(BuildingLinkMaintenanceCategorySchema), categories, path);
+  }
+
+  /**
+   * Streams the occupant's maintenance requests from the BuildingLink API
+   * @param options - Filtering, ordering and pagination options (defaults to the open requests)
+   * @returns Async generator yielding the maintenance requests
+   */
+  async *iterateMaintenanceRequests(options: MaintenanceOptions = {}): AsyncGenerator<BuildingLinkMaintenanceRequest> {
+    const { status = "open", orderBy } = options;
+    const path = "Maintenance/Resident/v1/Requests";
+
+    const filters = [
+      ...(status === "all" ? [] : [`IsOpen eq ${status === "open"}`]),
+      ...anyOfFilter("CategoryId", options.categoryIds),
+    ];
+
+    const query: ODataQuery = {
+      $expand: "Category,Status",
+      ...(filters.length ? { $filter: filters.join(" and ") } : {}),
+      ...(orderBy ? { $orderby: orderBy } : {}),
       $skip: 0,
     };
 
-    // build the query string
-    // can't use URLSearchParams because of the $
-    const queryString = Object.entries(query)
-      .map(([key, value]) => `${key}=${value}`)
-      .join("&");
+    for await (const request of this.paginate(path, query, options)) {
+      yield this.validate(BuildingLinkMaintenanceRequestSchema, request, path);
+    }
+  }
 
-    let url = `ServicesAndOffers/Resident/v1/PreferredVendors?${queryString}`;
+  /**
+   * Fetches the occupant's maintenance requests from the BuildingLink API
+   * @param options - Filtering, ordering and pagination options (defaults to the open requests)
+   * @returns Promise resolving to the maintenance requests
+   */
+  async getMaintenanceRequests(options: MaintenanceOptions = {}): Promise<BuildingLinkMaintenanceRequest[]> {
+    return collect(this.iterateMaintenanceRequests(options));
+  }
 
-    // Fetch all pages
-    while (url) {
-      const response = await this.api(url);
-      const data = await response.json();
+  /**
+   * Fetches a maintenance request with its status history, comments and attachments
+   * @param id - ID of the request
+   * @param options - Property the request belongs to
+   * @returns Promise resolving to the maintenance request
+   * @throws ApiError if the request doesn't exist
+   */
+  async getMaintenanceRequest(id: number, options: PropertyOptions = {}): Promise<BuildingLinkMaintenanceRequest> {
+    const path = `Maintenance/Resident/v1/Requests(${id})`;
+    const query = "$expand=Category,Status,History($expand=Status),Comments,Attachments";
+    const response = await this.api(`${path}?${query}`, options);
+    return this.validate(BuildingLinkMaintenanceRequestSchema, await response.json(), path);
+  }
 
-      // Add vendors
-      for (const { Provider } of data.value) {
-        vendors.push(Provider);
-      }
+  /**
+   * Files a maintenance request
+   * The request is sent as multipart form data, so photos are uploaded along with it
+   *
+   * @param request - Category, description, permission to enter and photos
+   * @returns Promise resolving to the new maintenance request
+   * @throws ApiError if the request is rejected (e.g. an inactive category)
+   */
+  async createMaintenanceRequest(request: MaintenanceRequestInput): Promise<BuildingLinkMaintenanceRequest> {
+    const { propertyId, categoryId, description, permissionToEnter = false, entryInstructions, photos = [] } = request;
+    const path = "Maintenance/Resident/v1/Requests";
+
+    const body = new FormData();
+    body.append(
+      "request",
+      JSON.stringify({
+        CategoryId: categoryId,
+        Description: description,
+        PermissionToEnter: permissionToEnter,
+        EntryInstructions: entryInstructions ?? null,
+      })
+    );
+
+    for (const { fileName, bytes, contentType = "application/octet-stream" } of photos) {
+      body.append("photos", new Blob([bytes], { type: contentType }), fileName);
+    }
 
-      // @odata.nextLink is the next page of results
-      url = data["@odata.nextLink"];
+    // fetch sets the multipart Content-Type, including its boundary
+    const response = await this.api(path, { method: "POST", body, propertyId });
+    return this.validate(BuildingLinkMaintenanceRequestSchema, await response.json(), path);
+  }
+
+  /**
+   * Adds a comment to a maintenance request
+   * @param id - ID of the request
+   * @param text - Text of the comment
+   * @param options - Property the request belongs to
+   * @returns Promise resolving to the new comment
+   * @throws ApiError if the request doesn't exist or is closed to comments
+   */
+  async commentOnMaintenanceRequest(
+    id: number,
+    text: string,
+    options: PropertyOptions = {}
+  ): Promise<BuildingLinkMaintenanceComment> {
+    const path = `Maintenance/Resident/v1/Requests(${id})/Comments`;
+
+    const response = await this.api(path, {
+      ...options,
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ Text: text }),
+    });
+
+    return this.validate(BuildingLinkMaintenanceCommentSchema, await response.json(), path);
+  }
+
+  /**
+   * Fetches the amenities residents can book
+   * @param options - Property to fetch the amenities of
+   * @returns Promise resolving to the reservable amenities
+   */
+  async getAmenities(options: PropertyOptions = {}): Promise<BuildingLinkAmenity[]> {
+    const path = "Amenities/Resident/v1/amenities";
+    const response = await this.api(path, options);
+    const amenities = this.validate(z.array(BuildingLinkAmenitySchema), await response.json(), path);
+    return amenities.filter(({ isReservable }) => isReservable);
+  }
+
+  /**
+   * Fetches the bookable slots of an amenity
+   * The range covers whole days in the building's time zone, like `getEvents()`
+   *
+   * @param amenityId - ID of the amenity
+   * @param from - The first day of the range
+   * @param to - The last day of the range
+   * @param options - Property, time zone override, and whether to include booked slots
+   * @returns Promise resolving to the slots, ordered by start
+   */
+  async getAmenityAvailability(
+    amenityId: number,
+    from: DateInput,
+    to: DateInput,
+    options: AvailabilityOptions = {}
+  ): Promise<BuildingLinkAmenitySlot[]> {
+    const { propertyId = this.propertyId, includeUnavailable = false } = options;
+    const timeZone = await this.getTimeZone(propertyId, options.timeZone);
+
+    const params = new URLSearchParams({
+      fromDateTime: startOfDay(from, timeZone).toISOString(),
+      toDateTime: endOfDay(to, timeZone).toISOString(),
+    });
+    const path = `Amenities/Resident/v1/amenities/${amenityId}/availability`;
+    const response = await this.api(`${path}?${params.toString()}`, { propertyId });
+
+    const slots = this.validate(z.array(BuildingLinkAmenitySlotSchema), await response.json(), path);
+    return slots
+      .filter(({ isAvailable }) => includeUnavailable || isAvailable)
+      .sort(byStartDate);
+  }
+
+  /**
+   * Books an amenity
+   * @param reservation - Amenity, time, party size and note
+   * @returns Promise resolving to the reservation, `Pending` if the amenity requires approval
+   * @throws RequestValidationError if the server rejects the booking (e.g. the slot is taken or too long)
+   */
+  async reserveAmenity(reservation: ReservationInput): Promise<BuildingLinkReservation> {
+    const { propertyId, amenityId, start, end, partySize = 1, notes } = reservation;
+    const path = "Amenities/Resident/v1/reservations";
+    const toUtc = (date: Date | string) => (date instanceof Date ? date : parseUtcDate(date)).toISOString();
+
+    const response = await this.api(path, {
+      propertyId,
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        amenityId,
+        startDateUTC: toUtc(start),
+        endDateUTC: toUtc(end),
+        partySize,
+        notes: notes ?? null,
+      }),
+    });
+
+    return this.validate(BuildingLinkReservationSchema, await response.json(), path);
+  }
+
+  /**
+   * Cancels an amenity reservation
+   * @param id - ID of the reservation
+   * @param options - Property the reservation belongs to
+   * @returns Promise resolving once the reservation is cancelled
+   * @throws RequestValidationError if the reservation can no longer be cancelled
+   */
+  async cancelReservation(id: number, options: PropertyOptions = {}): Promise<void> {
+    await this.api(`Amenities/Resident/v1/reservations/${id}`, { ...options, method: "DELETE" });
+  }
+
+  /**
+   * Fetches the occupant's upcoming amenity reservations
+   * @param options - Property to fetch the reservations of
+   * @returns Promise resolving to the reservations that haven't ended yet, ordered by start
+   */
+  async getReservations(options: PropertyOptions = {}): Promise<BuildingLinkReservation[]> {
+    const params = new URLSearchParams({ fromDateTime: new Date().toISOString() });
+    const path = "Amenities/Resident/v1/reservations";
+    const response = await this.api(`${path}?${params.toString()}`, options);
+
+    const reservations = this.validate(z.array(BuildingLinkReservationSchema), await response.json(), path);
+    return reservations.sort(byStartDate);
+  }
+
+  /**
+   * Fetches the kinds of access a visitor can be given (e.g. key release)
+   * @param options - Property to fetch the entry types of
+   * @returns Promise resolving to the entry types
+   */
+  async getVisitorEntryTypes(options: PropertyOptions = {}): Promise<BuildingLinkVisitorEntryType[]> {
+    const path = "FrontDesk/Resident/v1/authorizations/entrytypes";
+    const response = await this.api(path, options);
+    return this.validate(z.array(BuildingLinkVisitorEntryTypeSchema), await response.json(), path);
+  }
+
+  /**
+   * Fetches the visitor authorizations of the current unit
+   * @param options - Property, and whether to include expired and revoked authorizations
+   * @returns Promise resolving to the visitor authorizations
+   */
+  async getVisitorAuthorizations(
+    options: VisitorAuthorizationOptions = {}
+  ): Promise<BuildingLinkVisitorAuthorization[]> {
+    const { includeInactive = false, ...rest } = options;
+    const path = "FrontDesk/Resident/v1/authorizations";
+    const response = await this.api(includeInactive ? `${path}?includeInactive=true` : path, rest);
+    return this.validate(z.array(BuildingLinkVisitorAuthorizationSchema), await response.json(), path);
+  }
+
+  /**
+   * Authorizes a visitor with the front desk
+   * @param authorization - Visitor name, notes, entry types and how long the authorization lasts
+   * @returns Promise resolving to the new authorization
+   * @throws RequestValidationError if the server rejects the authorization (e.g. a range ending before it starts)
+   */
+  async createVisitorAuthorization(
+    authorization: VisitorAuthorizationInput
+  ): Promise<BuildingLinkVisitorAuthorization> {
+    const path = "FrontDesk/Resident/v1/authorizations";
+    const response = await this.api(path, await this.visitorAuthorizationRequest("POST", authorization));
+    return this.validate(BuildingLinkVisitorAuthorizationSchema, await response.json(), path);
+  }
+
+  /**
+   * Replaces the details of a visitor authorization
+   * @param id - ID of the authorization
+   * @param authorization - Visitor name, notes, entry types and how long the authorization lasts
+   * @returns Promise resolving to the updated authorization
+   * @throws RequestValidationError if the server rejects the changes
+   */
+  async updateVisitorAuthorization(
+    id: number,
+    authorization: VisitorAuthorizationInput
+  ): Promise<BuildingLinkVisitorAuthorization> {
+    const path = `FrontDesk/Resident/v1/authorizations/${id}`;
+    const response = await this.api(path, await this.visitorAuthorizationRequest("PUT", authorization));
+    return this.validate(BuildingLinkVisitorAuthorizationSchema, await response.json(), path);
+  }
+
+  /**
+   * Revokes a visitor authorization, so the front desk no longer lets the visitor in
+   * @param id - ID of the authorization
+   * @param options - Property the authorization belongs to
+   * @returns Promise resolving once the authorization is revoked
+   */
+  async revokeVisitorAuthorization(id: number, options: PropertyOptions = {}): Promise<void> {
+    await this.api(`FrontDesk/Resident/v1/authorizations/${id}`, { ...options, method: "DELETE" });
+  }
+
+  /**
+   * Builds the request that creates or updates a visitor authorization
+   * Dates are sent as calendar days in the building's time zone
+   *
+   * @param method - HTTP method
+   * @param authorization - The authorization
+   * @returns Promise resolving to the request options for `api()`
+   */
+  private async visitorAuthorizationRequest(
+    method: string,
+    authorization: VisitorAuthorizationInput
+  ): Promise<RequestInit & PropertyOptions> {
+    const { propertyId = this.propertyId, name, notes, entryTypeIds = [] } = authorization;
+    const timeZone = await this.getTimeZone(propertyId);
+    const day = (input: DateInput) => formatZonedDate(input, timeZone);
+
+    // Permanent authorizations have no dates
+    let startDate: string | null = null;
+    let endDate: string | null = null;
+
+    if (authorization.type === "OneTime") {
+      startDate = endDate = day(authorization.date);
+    } else if (authorization.type === "DateRange") {
+      startDate = day(authorization.from);
+      endDate = day(authorization.to);
     }
 
-    return vendors;
+    return {
+      propertyId,
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, notes: notes ?? null, type: authorization.type, startDate, endDate, entryTypeIds }),
+    };
+  }
+
+  /**
+   * Streams the preferred vendors from the BuildingLink API
+   * @param options - Pagination options
+   * @returns Async generator yielding the preferred vendors
+   */
+  async *iterateVendors(options: PaginateOptions = {}): AsyncGenerator<BuildingLinkVendor> {
+    const path = "ServicesAndOffers/Resident/v1/PreferredVendors";
+    const query = {
+      $expand: "Provider($expand%3DCategory,Properties,State)",
+      $skip: 0,
+    };
+
+    for await (const { Provider } of this.paginate<{ Provider: unknown }>(path, query, options)) {
+      yield this.validate(BuildingLinkVendorSchema, Provider, path);
+    }
+  }
+
+  /**
+   * Fetches the preferred vendors from the BuildingLink API
+   * @param options - Pagination options
+   * @returns Promise resolving to the preferred vendors
+   */
+  async getVendors(options: PaginateOptions = {}): Promise<BuildingLinkVendor[]> {
+    return collect(this.iterateVendors(options));
   }
 
   /**
@@ -507,8 +1843,110 @@ export class BuildingLink {
     const url = "Properties/AuthenticatedUser/v1/property/authorized-properties";
     const response = await this.api(url);
     const { authorizedProperties } = await response.json();
-    const properties = authorizedProperties.data as BuildingLinkBuilding[];
-    return properties;
+    return this.validate(z.array(BuildingLinkBuildingSchema), authorizedProperties.data, url);
+  }
+
+  /**
+   * Fetches the authorized properties once, and reuses them afterwards
+   * @returns Promise resolving to the authorized properties
+   */
+  private loadBuildings(): Promise<BuildingLinkBuilding[]> {
+    // Properties rarely change, so they are only fetched once, unless that fails
+    this.buildings ??= this.getBuildings().catch((error) => {
+      this.buildings = undefined;
+      throw error;
+    });
+
+    return this.buildings;
+  }
+
+  /**
+   * Finds an authorized property by its legacy ID
+   * @param propertyId - Legacy ID of the property (`propertyId` of events), undefined for the session's property
+   * @returns Promise resolving to the property, undefined if none is given and several are authorized
+   * @throws ConfigurationError if the property isn't authorized for this account
+   */
+  private async getBuilding(propertyId?: number): Promise<BuildingLinkBuilding | undefined> {
+    const buildings = await this.loadBuildings();
+
+    // Which property a session starts on isn't known, so only an account with one property has one
+    if (propertyId === undefined) {
+      return buildings.length === 1 ? buildings[0] : undefined;
+    }
+
+    const building = buildings.find(({ legacyId }) => legacyId === propertyId);
+
+    if (!building) {
+      throw new ConfigurationError(`Property ${propertyId} is not authorized for this account`);
+    }
+
+    return building;
+  }
+
+  /**
+   * Gets the time zone the dates of a property are read in
+   * @param propertyId - Legacy ID of the property, undefined for the session's property
+   * @param timeZone - Time zone requested by the caller, if any
+   * @returns Promise resolving to the requested time zone, else the building's `timeZoneCode`, else UTC
+   * @throws ConfigurationError if the time zone isn't supported by the runtime
+   */
+  private async getTimeZone(propertyId?: number, timeZone?: string): Promise<string> {
+    return this.checkTimeZone(timeZone ?? (await this.getBuilding(propertyId))?.timeZoneCode ?? "UTC");
+  }
+
+  /**
+   * Checks that a time zone can be converted to before using it
+   * @param timeZone - IANA time zone name
+   * @returns The time zone
+   * @throws ConfigurationError if the time zone isn't supported by the runtime
+   */
+  private checkTimeZone(timeZone: string): string {
+    if (!isValidTimeZone(timeZone)) {
+      throw new ConfigurationError(`Time zone ${timeZone} is not supported, pass a supported IANA time zone`);
+    }
+
+    return timeZone;
+  }
+
+  /**
+   * Makes an authorized property the active property for tenant pages and API calls
+   * @param id - Legacy ID (`legacyId`) or ID (`id`) of the property
+   * @returns Promise resolving to the property
+   * @throws ConfigurationError if the property isn't authorized for this account
+   */
+  async useProperty(id: number | string): Promise<BuildingLinkBuilding> {
+    const buildings = await this.loadBuildings();
+    const building = buildings.find(({ legacyId, id: uuid }) => legacyId === Number(id) || uuid === id);
+
+    if (!building) {
+      throw new ConfigurationError(`Property ${id} is not authorized for this account`);
+    }
+
+    this.propertyId = building.legacyId;
+    return building;
+  }
+
+  /**
+   * Runs a query for every authorized property, one property at a time
+   * A failing property doesn't stop the others, its error is returned with its building instead.
+   *
+   * @param query - Query to run, given the legacy ID and details of each property
+   * @returns Promise resolving to the result of each property, tagged with its building
+   */
+  async forEachProperty<T>(
+    query: (propertyId: number, building: BuildingLinkBuilding) => Promise<T>
+  ): Promise<PropertyResult<T>[]> {
+    const results: PropertyResult<T>[] = [];
+
+    for (const building of await this.loadBuildings()) {
+      try {
+        results.push({ building, result: await query(building.legacyId, building) });
+      } catch (error) {
+        results.push({ building, error });
+      }
+    }
+
+    return results;
   }
 }
 
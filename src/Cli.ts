@@ -0,0 +1,343 @@
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { parseArgs } from "util";
+import { BuildingLink } from "./BuildingLink";
+import type { BuildingLinkOptions } from "./BuildingLink";
+import { ConfigurationError } from "./Errors";
+import { stripHtml } from "./Html";
+import { FileSessionStore } from "./SessionStore";
+import { DEFAULT_EVENT_DAYS } from "./TimeZone";
+
+/**
+ * Settings of the command-line interface, read from the config file and environment variables
+ */
+export interface CliConfig {
+  /** BuildingLink username */
+  username?: string;
+  /** BuildingLink password */
+  password?: string;
+  /** BuildingLink's API key for their authentication API, needed by `whoami` */
+  apiKey?: string;
+  /** Legacy ID of the property to use */
+  propertyId?: number;
+  /** Path of the cached session */
+  session?: string;
+}
+
+/**
+ * Streams and environment the command-line interface runs with
+ */
+export interface CliContext {
+  /** Stream for command output */
+  stdout: { write(text: string): unknown };
+  /** Stream for errors */
+  stderr: { write(text: string): unknown };
+  /** Environment variables */
+  env: Record<string, string | undefined>;
+  /** Creates the client, replaceable in tests */
+  createClient?: (options: BuildingLinkOptions) => BuildingLink;
+}
+
+/** Flags accepted by the command-line interface */
+const CLI_OPTIONS = {
+  json: { type: "boolean" },
+  config: { type: "string" },
+  property: { type: "string" },
+  from: { type: "string" },
+  to: { type: "string" },
+  status: { type: "string" },
+  download: { type: "boolean" },
+  output: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+/** Usage shown by `--help` */
+const USAGE = `Usage: buildinglink <command> [options]
+
+Commands:
+  login                       Log in and cache the session
+  whoami                      Show the signed-in occupant
+  deliveries [--status open|closed|all]
+                              List deliveries (defaults to open ones)
+  events [--from YYYY-MM-DD] [--to YYYY-MM-DD]
+                              List events, defaults to the next 30 days
+  announcements               List active announcements
+  library [--download] [--output DIR]
+                              List library documents, or mirror them to DIR
+  vendors                     List preferred vendors
+
+Options:
+  --json                      Print JSON instead of a table
+  --config PATH               Config file (defaults to ~/.config/buildinglink/config.json)
+  --property ID               Legacy ID of the property to use
+  -h, --help                  Show this help
+
+Credentials are read from BUILDINGLINK_USERNAME and BUILDINGLINK_PASSWORD, or from the config file.
+`;
+
+/** Default directory for `library --download` */
+const DEFAULT_LIBRARY_DIR = "buildinglink-library";
+
+/**
+ * A table column
+ */
+interface Column<T> {
+  /** Column header */
+  header: string;
+  /** Gets the cell of a row */
+  value: (row: T) => unknown;
+}
+
+/**
+ * Gets the directory holding a kind of per-user files, following the XDG base directory spec
+ * @param env - Environment variables
+ * @param variable - XDG variable (e.g. `XDG_CONFIG_HOME`)
+ * @param fallback - Directory relative to the home directory if the variable isn't set
+ * @returns The BuildingLink directory
+ */
+function userDirectory(env: CliContext["env"], variable: string, fallback: string): string {
+  return join(env[variable] || join(homedir(), fallback), "buildinglink");
+}
+
+/**
+ * Loads the settings from the config file, overridden by environment variables
+ * @param env - Environment variables
+ * @param path - Config file, defaults to `BUILDINGLINK_CONFIG` or the user's config directory
+ * @returns Promise resolving to the settings
+ * @throws ConfigurationError if the config file isn't valid JSON
+ */
+export async function loadCliConfig(env: CliContext["env"], path?: string): Promise<CliConfig> {
+  const file = path || env.BUILDINGLINK_CONFIG || join(userDirectory(env, "XDG_CONFIG_HOME", ".config"), "config.json");
+  let config: CliConfig = {};
+
+  try {
+    config = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new ConfigurationError(`Invalid config file ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  const propertyId = env.BUILDINGLINK_PROPERTY_ID || config.propertyId;
+
+  return {
+    ...config,
+    username: env.BUILDINGLINK_USERNAME || config.username,
+    password: env.BUILDINGLINK_PASSWORD || config.password,
+    apiKey: env.BUILDINGLINK_API_KEY || config.apiKey,
+    propertyId: propertyId ? Number(propertyId) : undefined,
+    session: config.session || join(userDirectory(env, "XDG_CACHE_HOME", ".cache"), "session.json"),
+  };
+}
+
+/**
+ * Formats a cell of a table
+ * @param value - The cell value
+ * @returns The text of the cell
+ */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+
+  return String(value).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Formats rows as a plain text table
+ * @param rows - The rows
+ * @param columns - The columns
+ * @returns The table, with a header and aligned columns
+ */
+function formatTable<T>(rows: T[], columns: Column<T>[]): string {
+  const cells = rows.map((row) => columns.map((column) => formatCell(column.value(row))));
+  const widths = columns.map(({ header }, index) => Math.max(header.length, ...cells.map((row) => row[index].length)));
+
+  const line = (values: string[]) =>
+    values
+      .map((value, index) => value.padEnd(widths[index]))
+      .join("  ")
+      .trimEnd();
+
+  return [line(columns.map(({ header }) => header)), line(widths.map((width) => "-".repeat(width))), ...cells.map(line)]
+    .map((text) => `${text}\n`)
+    .join("");
+}
+
+/**
+ * Gets a date as a calendar day in the host's time zone
+ * @param date - The date
+ * @returns The day, e.g. "2024-07-01"
+ */
+function toCalendarDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Runs the BuildingLink command-line interface
+ * @param argv - Arguments after the executable, e.g. `["events", "--from", "2024-07-01"]`
+ * @param context - Streams and environment to run with
+ * @returns Promise resolving to the exit code
+ */
+export async function runCli(argv: string[], context: CliContext): Promise<number> {
+  const { stdout, stderr, env, createClient = (options) => new BuildingLink(options) } = context;
+
+  let parsed: ReturnType<typeof parseArgs<{ options: typeof CLI_OPTIONS; allowPositionals: true }>>;
+  try {
+    parsed = parseArgs({ args: argv, options: CLI_OPTIONS, allowPositionals: true });
+  } catch (error) {
+    stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    (values.help ? stdout : stderr).write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  // Anything but a positive integer would be sent to BuildingLink as NaN
+  if (values.property !== undefined && !/^[1-9]\d*$/.test(values.property)) {
+    stderr.write(`Invalid --property: ${values.property}, expected a positive integer\n\n${USAGE}`);
+    return 2;
+  }
+
+  /**
+   * Prints rows as JSON or as a table
+   */
+  const print = <T>(rows: T[], columns: Column<T>[]) => {
+    stdout.write(values.json ? `${JSON.stringify(rows, null, 2)}\n` : formatTable(rows, columns));
+  };
+
+  try {
+    const config = await loadCliConfig(env, values.config);
+
+    if (!config.username || !config.password) {
+      throw new ConfigurationError(
+        "Missing credentials: set BUILDINGLINK_USERNAME and BUILDINGLINK_PASSWORD, or add them to the config file"
+      );
+    }
+
+    const client = createClient({
+      username: config.username,
+      password: config.password,
+      apiKey: config.apiKey,
+      propertyId: values.property ? Number(values.property) : config.propertyId,
+      session: new FileSessionStore(config.session!),
+    });
+
+    switch (command) {
+      case "login": {
+        await client.login();
+        const occupant = await client.getOccupant();
+        stdout.write(values.json ? `${JSON.stringify(occupant, null, 2)}\n` : `Logged in as ${occupant.fullName}\n`);
+        break;
+      }
+
+      case "whoami": {
+        const occupant = await client.getOccupant();
+        print(
+          [occupant],
+          [
+            { header: "Name", value: (row) => row.fullName },
+            { header: "Email", value: (row) => row.emailAddress },
+            { header: "ID", value: (row) => row.id },
+          ]
+        );
+        break;
+      }
+
+      case "deliveries": {
+        const status = (values.status || "open") as "open" | "closed" | "all";
+        if (!["open", "closed", "all"].includes(status)) {
+          throw new ConfigurationError(`Unknown delivery status: ${status}`);
+        }
+
+        print(await client.getDeliveries({ status }), [
+          { header: "ID", value: (row) => row.Id },
+          { header: "Type", value: (row) => row.Type.DescriptionShort },
+          { header: "Location", value: (row) => row.Location.Description },
+          { header: "Opened", value: (row) => row.OpenDate && new Date(row.OpenDate) },
+          { header: "Description", value: (row) => row.Description },
+        ]);
+        break;
+      }
+
+      case "events": {
+        const from = values.from || toCalendarDate(new Date());
+        const to = values.to || toCalendarDate(new Date(Date.now() + DEFAULT_EVENT_DAYS * 24 * 60 * 60 * 1000));
+
+        print(await client.getEvents(from, to, { expand: true, dates: true }), [
+          { header: "Start", value: (row) => row.startDateUTC },
+          { header: "End", value: (row) => row.endDateUTC },
+          { header: "Title", value: (row) => row.title },
+        ]);
+        break;
+      }
+
+      case "announcements": {
+        print(await client.getAnnouncements(), [
+          { header: "Date", value: (row) => new Date(row.startDate) },
+          { header: "Priority", value: (row) => (row.isHighPriority ? "High" : "") },
+          { header: "Subject", value: (row) => row.emailSubject || stripHtml(row.body).slice(0, 80) },
+        ]);
+        break;
+      }
+
+      case "library": {
+        if (values.download) {
+          const output = values.output || DEFAULT_LIBRARY_DIR;
+          const result = await client.syncLibrary(output);
+          const summary = Object.entries(result).map(([kind, entries]) => ({ kind, count: entries.length }));
+
+          print(summary, [
+            { header: output, value: (row) => row.kind },
+            { header: "Documents", value: (row) => row.count },
+          ]);
+          break;
+        }
+
+        const { aptDocuments, buildingDocuments } = await client.getLibrary();
+        const documents = [
+          ...aptDocuments.map((doc) => ({ kind: "Apartment", ...doc })),
+          ...buildingDocuments.map((doc) => ({ kind: "Building", ...doc })),
+        ];
+
+        print(documents, [
+          { header: "Kind", value: (row) => row.kind },
+          { header: "Category", value: (row) => row.categories.join(" / ") },
+          { header: "Title", value: (row) => row.title },
+          { header: "Posted", value: (row) => toCalendarDate(row.postedOn) },
+        ]);
+        break;
+      }
+
+      case "vendors": {
+        print(await client.getVendors(), [
+          { header: "Name", value: (row) => row.Name },
+          { header: "Category", value: (row) => row.Category.Name },
+          { header: "Phone", value: (row) => row.Phone },
+          { header: "Website", value: (row) => row.Website },
+        ]);
+        break;
+      }
+
+      default:
+        stderr.write(`Unknown command: ${command}\n\n${USAGE}`);
+        return 2;
+    }
+
+    return 0;
+  } catch (error) {
+    stderr.write(`Error: ${(error as Error).message}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,118 @@
+import type { BuildingLink, DeliveryOptions } from "./BuildingLink";
+import type { BuildingLinkDelivery } from "./models/index";
+import { Poller } from "./Poller";
+import type { PollerEvents } from "./Poller";
+import type { Store } from "./Store";
+
+/**
+ * Last-seen state of the watcher, persisted between polls
+ */
+export interface DeliveryWatcherState {
+  /** Open deliveries seen on the last poll, keyed by Id */
+  deliveries: Record<string, BuildingLinkDelivery>;
+}
+
+/**
+ * Options for watching deliveries
+ */
+export interface DeliveryWatcherOptions
+  extends Pick<DeliveryOptions, "includeHiddenTypes" | "typeIds" | "locationIds" | "propertyId"> {
+  /** Time between polls (in milliseconds, defaults to 5 minutes) */
+  interval?: number;
+  /** Store used to persist the last-seen state, so restarts don't re-announce deliveries */
+  store?: Store<DeliveryWatcherState>;
+}
+
+/**
+ * Events emitted by the delivery watcher
+ */
+export interface DeliveryWatcherEvents extends PollerEvents {
+  /** A new delivery is waiting */
+  arrived: [delivery: BuildingLinkDelivery];
+  /** A waiting delivery changed (its LastChangeDate moved) */
+  updated: [delivery: BuildingLinkDelivery, previous: BuildingLinkDelivery];
+  /** A delivery was picked up or removed */
+  closed: [delivery: BuildingLinkDelivery];
+}
+
+/**
+ * Polls the open deliveries and emits events as they arrive, change and get picked up
+ */
+export class DeliveryWatcher extends Poller<DeliveryWatcherEvents> {
+  /** Client used to fetch the deliveries */
+  private client: BuildingLink;
+  /** Watcher options */
+  private options: DeliveryWatcherOptions;
+  /** Last-seen state, loaded from the store on the first poll */
+  private state: DeliveryWatcherState | undefined;
+
+  /**
+   * Creates a new delivery watcher
+   * @param client - Client used to fetch the deliveries
+   * @param options - Watcher options
+   */
+  constructor(client: BuildingLink, options: DeliveryWatcherOptions = {}) {
+    super(options.interval);
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * Fetches the open deliveries once, saves the new state and emits events for the changes
+   * Events are only emitted once the state is saved, so a failed poll is retried without re-announcing
+   *
+   * @returns Promise resolving once the poll is complete
+   */
+  async poll(): Promise<void> {
+    const { store, includeHiddenTypes, typeIds, locationIds, propertyId } = this.options;
+
+    this.state ??= (await store?.load()) ?? { deliveries: {} };
+    const previous = this.state.deliveries;
+
+    const deliveries = await this.client.getDeliveries({
+      status: "open",
+      includeHiddenTypes,
+      typeIds,
+      locationIds,
+      propertyId,
+    });
+    const current = Object.fromEntries(deliveries.map((delivery) => [delivery.Id, delivery]));
+
+    // Deliveries that are no longer open were picked up, so fetch them for their close details
+    const closedIds = Object.keys(previous)
+      .filter((id) => !(id in current))
+      .map(Number);
+    let closed: BuildingLinkDelivery[] = [];
+
+    if (closedIds.length) {
+      const found = await this.client.getDeliveries({
+        status: "all",
+        includeHiddenTypes: true,
+        ids: closedIds,
+        propertyId,
+      });
+      const foundById = Object.fromEntries(found.map((delivery) => [delivery.Id, delivery]));
+
+      // Fall back to the last-seen details if the delivery was removed altogether
+      closed = closedIds.map((id) => foundById[id] ?? previous[id]);
+    }
+
+    const state = { deliveries: current };
+    await store?.save(state);
+    this.state = state;
+
+    for (const delivery of deliveries) {
+      const seen = previous[delivery.Id];
+
+      if (!seen) {
+        this.emit("arrived", delivery);
+      } else if (seen.LastChangeDate !== delivery.LastChangeDate) {
+        this.emit("updated", delivery, seen);
+      }
+    }
+
+    for (const delivery of closed) {
+      this.emit("closed", delivery);
+    }
+  }
+}
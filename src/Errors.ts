@@ -0,0 +1,149 @@
+import type { ZodIssue } from "zod";
+
+/**
+ * Base class for all errors thrown by the BuildingLink client
+ */
+export class BuildingLinkError extends Error {
+  /**
+   * Creates a new BuildingLink error
+   * @param message - Description of the error
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Error thrown when the client is missing required options
+ */
+export class ConfigurationError extends BuildingLinkError {}
+
+/**
+ * Error thrown when BuildingLink rejects the login
+ */
+export class AuthenticationError extends BuildingLinkError {
+  /** Validation summary shown on the login form, if any */
+  public readonly summary: string | undefined;
+
+  /**
+   * Creates a new authentication error
+   * @param summary - Validation summary shown on the login form
+   */
+  constructor(summary: string | undefined) {
+    super(`Failed to login: ${summary}`);
+    this.summary = summary;
+  }
+}
+
+/**
+ * Error thrown when a request is redirected back to a URL it already visited
+ */
+export class RedirectLoopError extends BuildingLinkError {
+  /** History of visited URLs, including the repeated entry */
+  public readonly history: string[];
+
+  /**
+   * Creates a new redirect loop error
+   * @param history - History of visited URLs, including the repeated entry
+   */
+  constructor(history: string[]) {
+    super(`Circular redirect detected: ${history[history.length - 1]}`);
+    this.history = history;
+  }
+}
+
+/**
+ * Error thrown when the BuildingLink API responds with an error status
+ */
+export class ApiError extends BuildingLinkError {
+  /** HTTP status code */
+  public readonly status: number;
+  /** URL of the request */
+  public readonly url: string;
+  /** Raw response body */
+  public readonly body: string;
+
+  /**
+   * Creates a new API error
+   * @param status - HTTP status code
+   * @param url - URL of the request
+   * @param body - Raw response body
+   */
+  constructor(status: number, url: string, body: string) {
+    super(`Request to ${url} failed with status ${status}`);
+    this.status = status;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+/**
+ * A problem with a request, as reported by the BuildingLink API
+ */
+export interface RequestValidationIssue {
+  /** Field of the request the problem is with, if the server named one */
+  field?: string;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Error thrown when the BuildingLink API rejects a request as invalid (e.g. a slot that is already booked)
+ */
+export class RequestValidationError extends ApiError {
+  /** Problems reported by the server */
+  public readonly issues: RequestValidationIssue[];
+
+  /**
+   * Creates a new request validation error
+   * @param status - HTTP status code
+   * @param url - URL of the request
+   * @param body - Raw response body
+   * @param issues - Problems reported by the server
+   */
+  constructor(status: number, url: string, body: string, issues: RequestValidationIssue[]) {
+    super(status, url, body);
+    const summary = issues.map(({ field, message }) => (field ? `${field}: ${message}` : message)).join("; ");
+    this.message = `Request to ${url} was rejected: ${summary}`;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error a webhook target responded with, passed to the dispatcher's `failed` event
+ */
+export class WebhookResponseError extends ApiError {
+  /**
+   * Creates a new webhook response error
+   * @param status - HTTP status code
+   * @param url - URL of the webhook
+   * @param body - Raw response body
+   */
+  constructor(status: number, url: string, body: string) {
+    super(status, url, body);
+    this.message = `Webhook ${url} responded with status ${status}`;
+  }
+}
+
+/**
+ * Error thrown when an API response doesn't match its schema
+ */
+export class ValidationError extends BuildingLinkError {
+  /** Path of the endpoint that returned the response */
+  public readonly path: string;
+  /** Issues reported by the schema */
+  public readonly issues: ZodIssue[];
+
+  /**
+   * Creates a new validation error
+   * @param path - Path of the endpoint that returned the response
+   * @param issues - Issues reported by the schema
+   */
+  constructor(path: string, issues: ZodIssue[]) {
+    const summary = issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+    super(`Invalid response from ${path}: ${summary}`);
+    this.path = path;
+    this.issues = issues;
+  }
+}
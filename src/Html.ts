@@ -0,0 +1,22 @@
+/**
+ * Gets the text of an HTML fragment
+ * @param html - The HTML
+ * @param keepLines - Keep line breaks and the ends of paragraphs instead of joining everything on one line
+ * @returns The text, without tags and extra whitespace
+ */
+export function stripHtml(html: string, keepLines = false): string {
+  const text = html
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ");
+
+  if (!keepLines) {
+    return text.replace(/\s+/g, " ").trim();
+  }
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
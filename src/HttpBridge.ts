@@ -0,0 +1,423 @@
+import { timingSafeEqual } from "crypto";
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import type { BuildingLink, DeliveryOptions } from "./BuildingLink";
+import { ApiError, BuildingLinkError } from "./Errors";
+import type { BuildingLinkLibraryDocument } from "./models/index";
+import { DEFAULT_EVENT_DAYS } from "./TimeZone";
+
+/**
+ * Options for the HTTP bridge
+ */
+export interface HttpBridgeOptions {
+  /** Token clients must send as `Authorization: Bearer <token>`, if any */
+  token?: string;
+  /** How long responses are cached (in milliseconds, defaults to 1 minute, 0 disables caching) */
+  cacheTtl?: number;
+}
+
+/**
+ * A cached response body
+ */
+interface CacheEntry {
+  /** When the entry expires (in milliseconds since the epoch) */
+  expires: number;
+  /** The pending or resolved value, shared by concurrent requests */
+  value: Promise<unknown>;
+}
+
+/** Default time responses are cached */
+const DEFAULT_CACHE_TTL = 60 * 1000;
+
+/** Delivery statuses accepted by the `/deliveries` route */
+const DELIVERY_STATUSES = ["open", "closed", "all"];
+
+/** Library route prefix for each kind of document */
+const LIBRARY_KINDS = { apartment: "aptDocuments", building: "buildingDocuments" } as const;
+
+/**
+ * Error answered with a client error status instead of a 500
+ */
+class HttpError extends BuildingLinkError {
+  /** HTTP status code */
+  public readonly status: number;
+
+  /**
+   * Creates a new HTTP error
+   * @param status - HTTP status code
+   * @param message - Description of the error
+   */
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Exposes a logged-in client as local JSON routes, plus an iCalendar feed of the events
+ *
+ * Routes (all `GET`, optionally with `?propertyId=`):
+ * - `/deliveries?status=open|closed|all`
+ * - `/events?from=YYYY-MM-DD&to=YYYY-MM-DD&expand=true`
+ * - `/events.ics?from=YYYY-MM-DD&to=YYYY-MM-DD`
+ * - `/announcements`
+ * - `/vendors`
+ * - `/library`
+ * - `/library/apartment/:fileId` and `/library/building/:fileId` to download a document
+ *
+ * Use `listen()` to run a standalone server, or mount `handler` on an existing one.
+ */
+export class HttpBridge {
+  /** Client used to answer the requests */
+  private client: BuildingLink;
+  /** Bridge options */
+  private options: HttpBridgeOptions;
+  /** Cached responses, keyed by route and validated parameters */
+  private cache = new Map<string, CacheEntry>();
+  /** Server started by `listen()` */
+  private server: Server | undefined;
+
+  /**
+   * Creates a new HTTP bridge
+   * @param client - Client used to answer the requests
+   * @param options - Bridge options
+   */
+  constructor(client: BuildingLink, options: HttpBridgeOptions = {}) {
+    this.client = client;
+    this.options = { cacheTtl: DEFAULT_CACHE_TTL, ...options };
+  }
+
+  /**
+   * Request listener for `http.createServer()` or frameworks that accept one
+   * @param request - The incoming request
+   * @param response - The response to write
+   */
+  handler = (request: IncomingMessage, response: ServerResponse): void => {
+    this.handle(request, response).catch((error) => {
+      if (!response.headersSent) {
+        this.sendJson(response, 500, { error: (error as Error).message });
+      } else {
+        response.destroy(error);
+      }
+    });
+  };
+
+  /**
+   * Starts a standalone server
+   * @param port - Port to listen on (0 picks a free port)
+   * @param host - Interface to listen on (defaults to localhost only)
+   * @returns Promise resolving to the address the server listens on
+   */
+  listen(port: number, host = "127.0.0.1"): Promise<AddressInfo> {
+    const server = createServer(this.handler);
+    this.server = server;
+
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve(server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Stops the standalone server
+   * @returns Promise resolving once open connections are closed
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+
+    return new Promise((resolve, reject) => {
+      if (!server) return resolve();
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeIdleConnections();
+    });
+  }
+
+  /**
+   * Discards the cached responses, so the next requests hit BuildingLink
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Answers a request
+   * @param request - The incoming request
+   * @param response - The response to write
+   * @returns Promise resolving once the response is written
+   */
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    try {
+      if (!this.isAuthorized(request)) {
+        response.setHeader("WWW-Authenticate", "Bearer");
+        throw new HttpError(401, "Missing or invalid bearer token");
+      }
+
+      if (request.method !== "GET" && request.method !== "HEAD") {
+        response.setHeader("Allow", "GET, HEAD");
+        throw new HttpError(405, `Method ${request.method} not allowed`);
+      }
+
+      const url = new URL(request.url || "/", "http://localhost");
+      const query = url.searchParams;
+      const propertyId = this.getPropertyId(query);
+
+      switch (url.pathname) {
+        case "/deliveries": {
+          const status = (query.get("status") || "open") as DeliveryOptions["status"];
+          if (!DELIVERY_STATUSES.includes(status!)) {
+            throw new HttpError(400, `Unknown delivery status: ${status}`);
+          }
+
+          const key = this.cacheKey("/deliveries", { propertyId, status });
+          const deliveries = await this.cached(key, () => this.client.getDeliveries({ status, propertyId }));
+          return this.sendJson(response, 200, deliveries);
+        }
+
+        case "/events": {
+          const { from, to } = this.getRange(query);
+          const expand = query.get("expand") === "true";
+
+          const key = this.cacheKey("/events", { propertyId, from: query.get("from"), to: query.get("to"), expand });
+          const events = await this.cached(key, () => this.client.getEvents(from, to, { expand, propertyId }));
+          return this.sendJson(response, 200, events);
+        }
+
+        case "/events.ics": {
+          const { from, to } = this.getRange(query);
+
+          const key = this.cacheKey("/events.ics", { propertyId, from: query.get("from"), to: query.get("to") });
+          const calendar = await this.cached(key, () => this.client.getEventsCalendar(from, to, { propertyId }));
+          response.writeHead(200, { "Content-Type": "text/calendar; charset=utf-8" });
+          response.end(calendar);
+          return;
+        }
+
+        case "/announcements": {
+          const key = this.cacheKey("/announcements", { propertyId });
+          const announcements = await this.cached(key, () => this.client.getAnnouncements({ propertyId }));
+          return this.sendJson(response, 200, announcements);
+        }
+
+        case "/vendors": {
+          const key = this.cacheKey("/vendors", { propertyId });
+          const vendors = await this.cached(key, () => this.client.getVendors({ propertyId }));
+          return this.sendJson(response, 200, vendors);
+        }
+
+        case "/library": {
+          return this.sendJson(response, 200, await this.getLibrary(propertyId));
+        }
+      }
+
+      const match = url.pathname.match(/^\/library\/(apartment|building)\/(\d+)$/);
+      if (match) {
+        const library = await this.getLibrary(propertyId);
+        const documents = library[LIBRARY_KINDS[match[1] as keyof typeof LIBRARY_KINDS]];
+        const doc = documents.find((document) => String(document.fileId) === match[2]);
+
+        if (!doc) {
+          throw new HttpError(404, `Document ${match[2]} not found`);
+        }
+
+        return this.sendDocument(request, response, doc);
+      }
+
+      throw new HttpError(404, `Route ${url.pathname} not found`);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return this.sendJson(response, error.status, { error: error.message });
+      }
+
+      // BuildingLink failing is an upstream error, not a bug in the bridge
+      if (error instanceof BuildingLinkError) {
+        return this.sendJson(response, 502, {
+          error: error.message,
+          ...(error instanceof ApiError && { status: error.status }),
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Checks the bearer token of a request
+   * @param request - The incoming request
+   * @returns Whether the request may be answered
+   */
+  private isAuthorized(request: IncomingMessage): boolean {
+    const { token } = this.options;
+    if (!token) {
+      return true;
+    }
+
+    const [scheme, value = ""] = (request.headers.authorization || "").split(" ");
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(value);
+
+    // Compare in constant time so the token can't be guessed byte by byte
+    return scheme?.toLowerCase() === "bearer" && actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Gets the property requested by the `propertyId` query parameter
+   * @param query - The query parameters
+   * @returns The property's legacy ID, or undefined for the client's active property
+   * @throws HttpError if the parameter isn't a number
+   */
+  private getPropertyId(query: URLSearchParams): number | undefined {
+    const value = query.get("propertyId");
+    if (!value) {
+      return undefined;
+    }
+
+    if (!/^\d+$/.test(value)) {
+      throw new HttpError(400, `Invalid propertyId: ${value}`);
+    }
+
+    return Number(value);
+  }
+
+  /**
+   * Gets the days requested by the `from` and `to` query parameters
+   * Defaults to the next 30 days
+   *
+   * @param query - The query parameters
+   * @returns The range, as `YYYY-MM-DD` days or dates
+   * @throws HttpError if a parameter isn't a `YYYY-MM-DD` day
+   */
+  private getRange(query: URLSearchParams): { from: string | Date; to: string | Date } {
+    const day = (name: string, fallback: Date) => {
+      const value = query.get(name);
+      if (!value) {
+        return fallback;
+      }
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+        throw new HttpError(400, `Invalid ${name} date: ${value}`);
+      }
+
+      return value;
+    };
+
+    const now = new Date();
+    return {
+      from: day("from", now),
+      to: day("to", new Date(now.getTime() + DEFAULT_EVENT_DAYS * 24 * 60 * 60 * 1000)),
+    };
+  }
+
+  /**
+   * Gets the library, sharing the cache of the `/library` route
+   * @param propertyId - Property to get the library of
+   * @returns Promise resolving to the library
+   */
+  private getLibrary(propertyId: number | undefined): ReturnType<BuildingLink["getLibrary"]> {
+    const key = this.cacheKey("/library", { propertyId });
+    return this.cached(key, () => this.client.getLibrary({ propertyId }));
+  }
+
+  /**
+   * Builds the cache key of a route
+   * Only the parameters the route validated are part of the key, so unknown query parameters
+   * can't fill the cache with copies of the same response.
+   *
+   * @param route - The route
+   * @param params - The validated parameters (missing ones are left out)
+   * @returns The cache key
+   */
+  private cacheKey(route: string, params: Record<string, string | number | boolean | null | undefined>): string {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== null && value !== "")
+      .map(([name, value]) => `${name}=${value}`);
+
+    return `${route}?${query.join("&")}`;
+  }
+
+  /**
+   * Gets a value from the cache, or loads it
+   * Failures aren't cached, so the next request tries again
+   *
+   * @param key - Cache key, built by `cacheKey()`
+   * @param load - Loads the value
+   * @returns Promise resolving to the value
+   */
+  private cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+
+    // Drop expired entries, so the cache doesn't grow on a long-running bridge
+    for (const [cachedKey, cachedEntry] of this.cache) {
+      if (cachedEntry.expires <= now) {
+        this.cache.delete(cachedKey);
+      }
+    }
+
+    const entry = this.cache.get(key);
+
+    if (entry && entry.expires > now) {
+      return entry.value as Promise<T>;
+    }
+
+    const value = load();
+    if (this.options.cacheTtl! > 0) {
+      this.cache.set(key, { expires: now + this.options.cacheTtl!, value });
+      value.catch(() => this.cache.get(key)?.value === value && this.cache.delete(key));
+    }
+
+    return value;
+  }
+
+  /**
+   * Writes a JSON response
+   * @param response - The response to write
+   * @param status - HTTP status code
+   * @param body - Value to serialize
+   */
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+    response.end(JSON.stringify(body));
+  }
+
+  /**
+   * Streams a library document to the response
+   * @param request - The incoming request
+   * @param response - The response to write
+   * @param doc - The library document
+   * @returns Promise resolving once the document is sent
+   */
+  private async sendDocument(
+    request: IncomingMessage,
+    response: ServerResponse,
+    doc: BuildingLinkLibraryDocument
+  ): Promise<void> {
+    const { stream, fileName, contentType, size } = await this.client.streamDocument(doc);
+    const name = fileName || doc.title;
+
+    response.writeHead(200, {
+      "Content-Type": contentType || "application/octet-stream",
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+      ...(size !== undefined && { "Content-Length": size }),
+    });
+
+    if (request.method === "HEAD") {
+      await stream.cancel();
+      response.end();
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      Readable.fromWeb(stream as NodeReadableStream<Uint8Array>)
+        .on("error", reject)
+        .pipe(response)
+        .on("finish", resolve)
+        .on("error", reject);
+    });
+  }
+}
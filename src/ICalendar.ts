@@ -0,0 +1,329 @@
+import { stripHtml } from "./Html";
+import type { BuildingLinkEvent } from "./models/index";
+import { formatRRule, parseRecurrence, WEEKDAYS } from "./Recurrence";
+import { getTimeZoneOffset, getZonedDateTime, parseUtcDate, zonedDateTimeToDate } from "./TimeZone";
+
+/**
+ * Options for exporting events as an iCalendar
+ */
+export interface ICalendarOptions {
+  /** IANA time zone of the building (e.g. `timeZoneCode` of the building), defaults to UTC */
+  timeZone?: string;
+  /** Name of the calendar shown by calendar apps */
+  name?: string;
+}
+
+/** Product identifier written to the calendar */
+const PRODUCT_ID = "-//BuildingLink//BuildingLink Client//EN";
+
+/** Domain used to build globally unique event UIDs */
+const UID_DOMAIN = "buildinglink.com";
+
+/** Maximum length of a content line in octets, excluding the line break */
+const MAX_LINE_LENGTH = 75;
+
+/** Duration of a day in milliseconds */
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Pads a number with leading zeros
+ * @param value - The number
+ * @param length - Minimum number of digits
+ * @returns The padded number
+ */
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Escapes a TEXT value
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line so no line is longer than 75 octets
+ * @param line - The content line
+ * @returns The folded line, with continuation lines starting with a space
+ */
+function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let length = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+
+    // Continuation lines start with a space, which counts toward their length
+    if (length + size > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = " ";
+      length = 1;
+    }
+
+    current += char;
+    length += size;
+  }
+
+  return [...lines, current].join("\r\n");
+}
+
+/**
+ * Formats an instant as a UTC DATE-TIME value
+ * @param date - The instant
+ * @returns The value, e.g. "20240101T120000Z"
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]|\.\d{3}/g, "");
+}
+
+/**
+ * Formats an instant as a local DATE-TIME value in a time zone
+ * @param date - The instant
+ * @param timeZone - IANA time zone name
+ * @returns The value, e.g. "20240101T070000"
+ */
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute, second } = getZonedDateTime(date, timeZone);
+  return `${pad(year, 4)}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}${pad(second)}`;
+}
+
+/**
+ * Formats the local date of an instant as a DATE value
+ * @param date - The instant
+ * @param timeZone - IANA time zone name, UTC if not provided
+ * @returns The value, e.g. "20240101"
+ */
+function formatDate(date: Date, timeZone = "UTC"): string {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  return `${pad(year, 4)}${pad(month)}${pad(day)}`;
+}
+
+/**
+ * Formats a UTC offset as a UTC-OFFSET value
+ * @param minutes - Offset in minutes
+ * @returns The value, e.g. "-0500"
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/**
+ * Finds the instant a time zone's offset changes between two instants
+ * @param start - Instant before the change
+ * @param end - Instant after the change
+ * @param timeZone - IANA time zone name
+ * @returns The first minute with the new offset
+ */
+function findTransition(start: number, end: number, timeZone: string): Date {
+  const offset = getTimeZoneOffset(new Date(start), timeZone);
+
+  while (end - start > 60 * 1000) {
+    const middle = start + Math.floor((end - start) / 2 / 60000) * 60000;
+
+    if (getTimeZoneOffset(new Date(middle), timeZone) === offset) {
+      start = middle;
+    } else {
+      end = middle;
+    }
+  }
+
+  return new Date(end);
+}
+
+/**
+ * Formats the yearly rule of a time zone transition, e.g. the second Sunday of March
+ * @param onset - Local DATE-TIME of the transition
+ * @returns The RRULE value
+ */
+function formatTransitionRule(onset: string): string {
+  const year = Number(onset.slice(0, 4));
+  const month = Number(onset.slice(4, 6));
+  const day = Number(onset.slice(6, 8));
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+  return `FREQ=YEARLY;BYMONTH=${month};BYDAY=${ordinal}${weekday}`;
+}
+
+/**
+ * Builds the VTIMEZONE component of a time zone for the given years
+ * Observances are listed per transition, so the definition matches the runtime's time zone data
+ *
+ * @param timeZone - IANA time zone name
+ * @param fromYear - First year the events span
+ * @param toYear - Last year the events span
+ * @returns The content lines of the component
+ */
+function buildTimeZone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const observances: string[][] = [];
+
+  // Look for offset changes month by month, starting with the offset at the beginning of the range
+  let previous = Date.UTC(fromYear, 0, 1);
+  let offset = getTimeZoneOffset(new Date(previous), timeZone);
+  const initial = offset;
+
+  for (let year = fromYear; year <= toYear; year++) {
+    for (let month = 1; month <= 12; month++) {
+      const next = Date.UTC(year, month, 1);
+      const nextOffset = getTimeZoneOffset(new Date(next), timeZone);
+
+      if (nextOffset !== offset) {
+        const transition = findTransition(previous, next, timeZone);
+        const onset = formatLocalDateTime(new Date(transition.getTime() + offset * 60000), "UTC");
+        const type = nextOffset > offset ? "DAYLIGHT" : "STANDARD";
+
+        // Transitions of the last year repeat yearly, so recurring events past the range stay correct
+        const rule = year === toYear ? [`RRULE:${formatTransitionRule(onset)}`] : [];
+
+        observances.push([
+          `BEGIN:${type}`,
+          `DTSTART:${onset}`,
+          ...rule,
+          `TZOFFSETFROM:${formatOffset(offset)}`,
+          `TZOFFSETTO:${formatOffset(nextOffset)}`,
+          `END:${type}`,
+        ]);
+        offset = nextOffset;
+      }
+
+      previous = next;
+    }
+  }
+
+  // Zones without transitions in range still need one observance
+  if (!observances.length) {
+    observances.push([
+      "BEGIN:STANDARD",
+      `DTSTART:${pad(fromYear, 4)}0101T000000`,
+      `TZOFFSETFROM:${formatOffset(initial)}`,
+      `TZOFFSETTO:${formatOffset(initial)}`,
+      "END:STANDARD",
+    ]);
+  }
+
+  return [...lines, ...observances.flat(), "END:VTIMEZONE"];
+}
+
+/**
+ * Builds the VEVENT component of an event
+ * All-day and multiday all-day events use DATE values with an exclusive end date,
+ * other events use date-times in the building's time zone.
+ *
+ * @param event - The event
+ * @param timeZone - IANA time zone name, UTC if not provided
+ * @returns The content lines of the component
+ */
+function buildEvent(event: BuildingLinkEvent, timeZone?: string): string[] {
+  const start = parseUtcDate(event.startDateUTC);
+  const end = parseUtcDate(event.endDateUTC);
+  const rule = parseRecurrence(event.calendarRecurrences);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(parseUtcDate(event.changeDateUTC))}`,
+  ];
+
+  let until: string | undefined;
+
+  if (event.isAllDay) {
+    const startDate = formatDate(start, timeZone);
+
+    // DTEND is exclusive, so an event ending during a day ends at the start of the next
+    let endDate = formatDate(new Date(end.getTime() - 1 + DAY), timeZone);
+    if (endDate <= startDate) {
+      endDate = formatDate(new Date(start.getTime() + DAY), timeZone);
+    }
+
+    lines.push(`DTSTART;VALUE=DATE:${startDate}`, `DTEND;VALUE=DATE:${endDate}`);
+    until = rule?.until && formatDate(rule.until);
+  } else if (timeZone) {
+    lines.push(
+      `DTSTART;TZID=${timeZone}:${formatLocalDateTime(start, timeZone)}`,
+      `DTEND;TZID=${timeZone}:${formatLocalDateTime(end, timeZone)}`
+    );
+  } else {
+    lines.push(`DTSTART:${formatUtcDateTime(start)}`, `DTEND:${formatUtcDateTime(end)}`);
+  }
+
+  if (rule) {
+    // UNTIL is inclusive of the whole end date in the building's time zone
+    if (rule.until && !until) {
+      const { year, month, day } = getZonedDateTime(rule.until, "UTC");
+      const endOfDay = { year, month, day, hour: 23, minute: 59, second: 59 };
+      until = formatUtcDateTime(zonedDateTimeToDate(endOfDay, timeZone ?? "UTC"));
+    }
+
+    lines.push(`RRULE:${formatRRule(rule, until)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+
+  if (event.description) {
+    // Descriptions are HTML, which calendar apps would show as literal tags
+    lines.push(`DESCRIPTION:${escapeText(stripHtml(event.description, true))}`);
+  }
+
+  lines.push(
+    `CREATED:${formatUtcDateTime(parseUtcDate(event.createDateUTC))}`,
+    `LAST-MODIFIED:${formatUtcDateTime(parseUtcDate(event.changeDateUTC))}`,
+    `STATUS:${event.isActive ? "CONFIRMED" : "CANCELLED"}`,
+    "END:VEVENT"
+  );
+
+  return lines;
+}
+
+/**
+ * Exports events as an RFC 5545 iCalendar
+ * Recurring events are exported once with their RRULE, and UIDs are derived from the event IDs,
+ * so subscribing calendars update events in place.
+ *
+ * @param events - The events to export
+ * @param options - Time zone and name of the calendar
+ * @returns The iCalendar document, with CRLF line breaks
+ */
+export function toICalendar(events: BuildingLinkEvent[], options: ICalendarOptions = {}): string {
+  const { timeZone, name } = options;
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODUCT_ID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+  }
+
+  if (timeZone) {
+    lines.push(`X-WR-TIMEZONE:${timeZone}`);
+
+    // Cover every year an event starts or ends in
+    const years = events
+      .flatMap((event) => [event.startDateUTC, event.endDateUTC])
+      .map((date) => parseUtcDate(date).getUTCFullYear());
+
+    if (!years.length) {
+      years.push(new Date().getUTCFullYear());
+    }
+
+    lines.push(...buildTimeZone(timeZone, Math.min(...years), Math.max(...years)));
+  }
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, timeZone));
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
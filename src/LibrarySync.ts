@@ -0,0 +1,232 @@
+import { createWriteStream } from "fs";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import type { BuildingLink } from "./BuildingLink";
+import type { BuildingLinkLibraryDocument } from "./models/index";
+
+/**
+ * A document recorded in the library manifest
+ */
+export interface LibraryManifestEntry {
+  /** Unique key of the document (`apt:<fileId>` or `building:<fileId>`) */
+  key: string;
+  /** Title of the document */
+  title: string;
+  /** Categories of the document */
+  categories: string[];
+  /** Date the document was posted (ISO string) */
+  postedOn: string;
+  /** Date the document was last revised (ISO string) */
+  revisedOn: string | null;
+  /** Path of the downloaded file, relative to the target directory */
+  path: string;
+  /** Content type provided by the server */
+  contentType?: string;
+  /** Date the document was downloaded (ISO string) */
+  syncedAt: string;
+}
+
+/**
+ * Manifest of the documents mirrored to a directory
+ */
+export interface LibraryManifest {
+  /** Mirrored documents, keyed by document key */
+  documents: Record<string, LibraryManifestEntry>;
+}
+
+/**
+ * Options for mirroring the library
+ */
+export interface LibrarySyncOptions {
+  /** Delete the files of documents that were removed from the library */
+  prune?: boolean;
+  /** Called after each document is downloaded */
+  onDownload?: (entry: LibraryManifestEntry) => void;
+}
+
+/**
+ * Outcome of mirroring the library
+ */
+export interface LibrarySyncResult {
+  /** Documents downloaded for the first time */
+  added: LibraryManifestEntry[];
+  /** Documents downloaded again because they were revised */
+  updated: LibraryManifestEntry[];
+  /** Documents that were already up to date */
+  unchanged: LibraryManifestEntry[];
+  /** Documents no longer in the library */
+  removed: LibraryManifestEntry[];
+}
+
+/** Name of the manifest file written to the target directory */
+export const LIBRARY_MANIFEST_FILE = "manifest.json";
+
+/** Directory for documents without a category */
+const UNCATEGORIZED = "Uncategorized";
+
+/**
+ * Makes a string safe to use as a file or directory name
+ * @param name - The name to sanitize
+ * @returns The sanitized name
+ */
+function sanitize(name: string): string {
+  const safe = name
+    .replace(/[\u0000-\u001f/\\:*?"<>|]/g, "_")
+    .replace(/[. ]+$/, "")
+    .trim();
+
+  return safe || "_";
+}
+
+/**
+ * Checks if a file exists
+ * @param path - Path to the file
+ * @returns Promise resolving to true if the file exists
+ */
+async function exists(path: string): Promise<boolean> {
+  return stat(path).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Loads the manifest from the target directory
+ * @param targetDir - The target directory
+ * @returns Promise resolving to the manifest, empty if there is none yet
+ */
+async function loadManifest(targetDir: string): Promise<LibraryManifest> {
+  try {
+    return JSON.parse(await readFile(join(targetDir, LIBRARY_MANIFEST_FILE), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { documents: {} };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Mirrors every apartment and building document of the library to a local directory
+ * Documents are organised by kind and category, and a manifest tracks what was downloaded,
+ * so later runs only download new documents and documents whose revision date changed.
+ *
+ * @param client - Client used to fetch the library
+ * @param targetDir - Directory to mirror the library to
+ * @param options - Sync options
+ * @returns Promise resolving to the added, updated, unchanged and removed documents
+ */
+export async function syncLibrary(
+  client: BuildingLink,
+  targetDir: string,
+  options: LibrarySyncOptions = {}
+): Promise<LibrarySyncResult> {
+  const { aptDocuments, buildingDocuments } = await client.getLibrary();
+  await mkdir(targetDir, { recursive: true });
+
+  const previous = await loadManifest(targetDir);
+  const manifest: LibraryManifest = { documents: {} };
+  const result: LibrarySyncResult = { added: [], updated: [], unchanged: [], removed: [] };
+
+  const documents: [string, BuildingLinkLibraryDocument][] = [
+    ...aptDocuments.map((doc): [string, BuildingLinkLibraryDocument] => ["apt", doc]),
+    ...buildingDocuments.map((doc): [string, BuildingLinkLibraryDocument] => ["building", doc]),
+  ];
+
+  // Claim the paths of documents already mirrored before downloading anything,
+  // so a new document listed first never overwrites one that shares its name
+  const owners = new Map<string, string>();
+  const upToDate = new Set<string>();
+
+  for (const [kind, doc] of documents) {
+    const key = `${kind}:${doc.fileId}`;
+    const existing = previous.documents[key];
+    if (!existing) continue;
+
+    owners.set(existing.path, key);
+
+    const revisedOn = doc.revisedOn?.toISOString() ?? null;
+    if (existing.revisedOn === revisedOn && (await exists(join(targetDir, existing.path)))) {
+      upToDate.add(key);
+    }
+  }
+
+  for (const [kind, doc] of documents) {
+    const key = `${kind}:${doc.fileId}`;
+    const revisedOn = doc.revisedOn?.toISOString() ?? null;
+    const existing = previous.documents[key];
+
+    // Skip documents that haven't been revised since they were downloaded
+    if (existing && upToDate.has(key)) {
+      manifest.documents[key] = existing;
+      result.unchanged.push(existing);
+      continue;
+    }
+
+    const { stream, fileName, contentType } = await client.streamDocument(doc);
+
+    // Name the file after the server's filename, falling back to the title
+    const name = sanitize(fileName || doc.title);
+    const categories = doc.categories.length ? doc.categories.map(sanitize) : [UNCATEGORIZED];
+    let path = join(kind === "apt" ? "Apartment" : "Building", ...categories, name);
+
+    // Keep documents that share a name apart
+    const owner = owners.get(path);
+    if (owner !== undefined && owner !== key) {
+      path = join(dirname(path), `${doc.fileId}-${name}`);
+    }
+
+    owners.set(path, key);
+
+    // Write to a temporary file first, so an interrupted download never replaces a good copy
+    const target = join(targetDir, path);
+    const temporary = `${target}.download`;
+    await mkdir(dirname(target), { recursive: true });
+    try {
+      await pipeline(Readable.fromWeb(stream as NodeReadableStream<Uint8Array>), createWriteStream(temporary));
+    } catch (error) {
+      await rm(temporary, { force: true });
+      throw error;
+    }
+    await rename(temporary, target);
+
+    // Remove the previous copy if the document moved, unless another document took its place
+    if (existing && existing.path !== path && owners.get(existing.path) === key) {
+      await rm(join(targetDir, existing.path), { force: true });
+    }
+
+    const entry: LibraryManifestEntry = {
+      key,
+      title: doc.title,
+      categories: doc.categories,
+      postedOn: doc.postedOn.toISOString(),
+      revisedOn,
+      path,
+      contentType,
+      syncedAt: new Date().toISOString(),
+    };
+
+    manifest.documents[key] = entry;
+    (existing ? result.updated : result.added).push(entry);
+    options.onDownload?.(entry);
+  }
+
+  // Documents in the previous manifest that are gone from the library
+  for (const [key, entry] of Object.entries(previous.documents)) {
+    if (key in manifest.documents) continue;
+
+    result.removed.push(entry);
+
+    // A document of this sync may have taken over the path
+    if (options.prune && !owners.has(entry.path)) {
+      await rm(join(targetDir, entry.path), { force: true });
+    }
+  }
+
+  await writeFile(join(targetDir, LIBRARY_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+  return result;
+}
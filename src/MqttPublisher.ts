@@ -0,0 +1,281 @@
+import type { BuildingLink, PropertyOptions } from "./BuildingLink";
+import { stripHtml } from "./Html";
+import type { BuildingLinkAnnouncement, BuildingLinkDelivery } from "./models/index";
+import { Poller } from "./Poller";
+import { DEFAULT_EVENT_DAYS } from "./TimeZone";
+
+/**
+ * Options for publishing an MQTT message
+ */
+export interface MqttPublishOptions {
+  /** Quality of service */
+  qos?: 0 | 1 | 2;
+  /** Whether the broker keeps the message for new subscribers */
+  retain?: boolean;
+}
+
+/**
+ * The part of an MQTT client used by the publisher, satisfied by a client of the `mqtt` package
+ */
+export interface MqttClient {
+  /** Publishes a message, resolving once the broker has it (for QoS 1 and 2) */
+  publishAsync(topic: string, message: string, options?: MqttPublishOptions): Promise<unknown>;
+}
+
+/**
+ * Options for publishing to MQTT
+ */
+export interface MqttPublisherOptions extends PropertyOptions {
+  /** Connected MQTT client, e.g. `await mqtt.connectAsync("mqtt://localhost")` */
+  mqtt: MqttClient;
+  /** Prefix of the state topics (defaults to `buildinglink`, or `buildinglink/<propertyId>`) */
+  topicPrefix?: string;
+  /** Prefix Home Assistant listens to for discovery (defaults to `homeassistant`, false to disable discovery) */
+  discoveryPrefix?: string | false;
+  /** Identifies the Home Assistant device (defaults to `buildinglink`, or `buildinglink_<propertyId>`) */
+  nodeId?: string;
+  /** Time between polls (in milliseconds, defaults to 5 minutes) */
+  interval?: number;
+  /** Number of days ahead to look for the next event (defaults to 30) */
+  eventDays?: number;
+}
+
+/**
+ * Events emitted by the publisher
+ */
+export interface MqttPublisherEvents {
+  /** Polling or publishing failed */
+  error: [error: unknown];
+}
+
+/**
+ * Payload of a state topic, read by Home Assistant through the discovery templates
+ */
+export interface MqttSensorState {
+  /** State of the sensor, null when unknown (e.g. no upcoming event) */
+  state: string | number | null;
+  /** Attributes of the sensor */
+  attributes: Record<string, unknown>;
+}
+
+/** Longest state Home Assistant accepts */
+const MAX_STATE_LENGTH = 255;
+
+/**
+ * Template Home Assistant reads the state with
+ * A null state renders as `None`, which Home Assistant shows as unknown instead of failing to parse it
+ */
+const VALUE_TEMPLATE = "{{ value_json.state if value_json.state is not none else None }}";
+
+/**
+ * Sensors published to Home Assistant, keyed by the last segment of their state topic
+ */
+const SENSORS = {
+  deliveries: { name: "Packages waiting", icon: "mdi:package-variant", unit_of_measurement: "packages" },
+  announcement: { name: "Announcement", icon: "mdi:bullhorn" },
+  next_event: { name: "Next event", icon: "mdi:calendar", device_class: "timestamp" },
+} as const;
+
+/**
+ * Gets the state of the open deliveries sensor
+ * @param deliveries - The open deliveries
+ * @returns The number of deliveries, with their details and the count of each type as attributes
+ */
+export function getDeliveriesState(deliveries: BuildingLinkDelivery[]): MqttSensorState {
+  const types: Record<string, number> = {};
+  for (const { Type } of deliveries) {
+    types[Type.DescriptionShort] = (types[Type.DescriptionShort] ?? 0) + 1;
+  }
+
+  return {
+    state: deliveries.length,
+    attributes: {
+      types,
+      deliveries: deliveries.map((delivery) => ({
+        id: delivery.Id,
+        type: delivery.Type.DescriptionShort,
+        location: delivery.Location.Description,
+        description: delivery.Description,
+        openDate: delivery.OpenDate,
+      })),
+    },
+  };
+}
+
+/**
+ * Gets the state of the announcement sensor
+ * @param announcements - The active announcements
+ * @returns The subject of the latest high-priority announcement, with its details as attributes
+ */
+export function getAnnouncementState(announcements: BuildingLinkAnnouncement[]): MqttSensorState {
+  const [latest] = announcements
+    .filter(({ isHighPriority }) => isHighPriority)
+    .sort((a, b) => Date.parse(b.startDate) - Date.parse(a.startDate));
+
+  if (!latest) {
+    return { state: null, attributes: {} };
+  }
+
+  const text = stripHtml(latest.body);
+
+  return {
+    state: (latest.emailSubject || text).slice(0, MAX_STATE_LENGTH),
+    attributes: {
+      id: latest.id,
+      subject: latest.emailSubject,
+      text,
+      startDate: latest.startDate,
+      endDate: latest.endDate,
+    },
+  };
+}
+
+/**
+ * Publishes open deliveries, the latest high-priority announcement and the next event to MQTT,
+ * along with Home Assistant discovery messages so they show up as sensors of a BuildingLink device
+ *
+ * State is published as retained JSON (`MqttSensorState`) to `<topicPrefix>/deliveries`,
+ * `<topicPrefix>/announcement` and `<topicPrefix>/next_event`. Availability is published to
+ * `<topicPrefix>/status`, set `offline` there as the MQTT client's will to mark the sensors
+ * unavailable when the process dies.
+ */
+export class MqttPublisher extends Poller<MqttPublisherEvents> {
+  /** Client used to fetch the state */
+  private client: BuildingLink;
+  /** Publisher options */
+  private options: MqttPublisherOptions;
+  /** Whether the discovery messages were published */
+  private discovered = false;
+
+  /**
+   * Creates a new MQTT publisher
+   * @param client - Client used to fetch the state
+   * @param options - MQTT client, topics and polling options
+   */
+  constructor(client: BuildingLink, options: MqttPublisherOptions) {
+    super(options.interval);
+    this.client = client;
+
+    const { propertyId = client.propertyId } = options;
+    this.options = {
+      topicPrefix: propertyId ? `buildinglink/${propertyId}` : "buildinglink",
+      discoveryPrefix: "homeassistant",
+      nodeId: propertyId ? `buildinglink_${propertyId}` : "buildinglink",
+      eventDays: DEFAULT_EVENT_DAYS,
+      ...options,
+      propertyId,
+    };
+  }
+
+  /**
+   * Gets the topic availability is published to
+   * @returns The availability topic
+   */
+  get statusTopic(): string {
+    return `${this.options.topicPrefix}/status`;
+  }
+
+  /**
+   * Stops polling and marks the sensors unavailable
+   * @returns Promise resolving once the availability is published
+   */
+  async stop(): Promise<void> {
+    super.stop();
+    await this.publish(this.statusTopic, "offline");
+  }
+
+  /**
+   * Fetches the state once and publishes it, along with the discovery messages on the first poll
+   * @returns Promise resolving once every message is published
+   */
+  async poll(): Promise<void> {
+    const { propertyId, eventDays } = this.options;
+    const now = new Date();
+    const to = new Date(now.getTime() + eventDays! * 24 * 60 * 60 * 1000);
+
+    const [deliveries, announcements, events] = await Promise.all([
+      this.client.getDeliveries({ status: "open", propertyId }),
+      this.client.getAnnouncements({ propertyId }),
+      this.client.getEvents(now, to, { expand: true, dates: true, propertyId }),
+    ]);
+
+    // Occurrences are sorted by start, the range also includes events already underway
+    const next = events.find(({ startDateUTC }) => startDateUTC >= now);
+
+    if (!this.discovered) {
+      await this.publishDiscovery();
+    }
+
+    await this.publishState("deliveries", getDeliveriesState(deliveries));
+    await this.publishState("announcement", getAnnouncementState(announcements));
+    await this.publishState("next_event", {
+      state: next ? next.startDateUTC.toISOString() : null,
+      attributes: next
+        ? {
+            id: next.occurrenceId,
+            title: next.title,
+            description: stripHtml(next.description),
+            start: next.startDateUTC.toISOString(),
+            end: next.endDateUTC.toISOString(),
+            allDay: next.isAllDay,
+          }
+        : {},
+    });
+    await this.publish(this.statusTopic, "online");
+  }
+
+  /**
+   * Publishes the Home Assistant discovery messages, so the sensors are created automatically
+   * Called by the first poll, call it again when Home Assistant comes back online
+   *
+   * @returns Promise resolving once every message is published
+   */
+  async publishDiscovery(): Promise<void> {
+    const { discoveryPrefix, nodeId, topicPrefix } = this.options;
+    this.discovered = true;
+
+    if (discoveryPrefix === false) {
+      return;
+    }
+
+    for (const [object, sensor] of Object.entries(SENSORS)) {
+      const config = {
+        ...sensor,
+        unique_id: `${nodeId}_${object}`,
+        object_id: `${nodeId}_${object}`,
+        state_topic: `${topicPrefix}/${object}`,
+        value_template: VALUE_TEMPLATE,
+        json_attributes_topic: `${topicPrefix}/${object}`,
+        json_attributes_template: "{{ value_json.attributes | tojson }}",
+        availability_topic: this.statusTopic,
+        device: {
+          identifiers: [nodeId],
+          name: "BuildingLink",
+          manufacturer: "BuildingLink",
+        },
+      };
+
+      await this.publish(`${discoveryPrefix}/sensor/${nodeId}/${object}/config`, JSON.stringify(config));
+    }
+  }
+
+  /**
+   * Publishes the state of a sensor
+   * @param object - Last segment of the sensor's state topic
+   * @param state - The state
+   * @returns Promise resolving once the state is published
+   */
+  private publishState(object: keyof typeof SENSORS, state: MqttSensorState): Promise<void> {
+    return this.publish(`${this.options.topicPrefix}/${object}`, JSON.stringify(state));
+  }
+
+  /**
+   * Publishes a retained message, so Home Assistant gets the latest state when it restarts
+   * @param topic - The topic
+   * @param message - The message
+   * @returns Promise resolving once the broker has the message
+   */
+  private async publish(topic: string, message: string): Promise<void> {
+    await this.options.mqtt.publishAsync(topic, message, { qos: 1, retain: true });
+  }
+}
@@ -0,0 +1,79 @@
+import { EventEmitter } from "events";
+
+/**
+ * Events emitted by every poller
+ */
+export interface PollerEvents {
+  /** Polling failed */
+  error: [error: unknown];
+}
+
+/** Default time between polls */
+export const DEFAULT_POLL_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Runs `poll()` on an interval until stopped, emitting `error` when a poll fails
+ * Like any EventEmitter, an unhandled `error` event throws, so listen for it
+ */
+export abstract class Poller<T extends Record<keyof T, unknown[]> & PollerEvents> extends EventEmitter<T> {
+  /** Time between polls (in milliseconds) */
+  private interval: number;
+  /** Timer for the next poll */
+  private timer: NodeJS.Timeout | undefined;
+  /** Whether the poller is running */
+  private running = false;
+
+  /**
+   * Creates a new poller
+   * @param interval - Time between polls (in milliseconds, defaults to 5 minutes)
+   */
+  constructor(interval = DEFAULT_POLL_INTERVAL) {
+    super();
+    this.interval = interval;
+  }
+
+  /**
+   * Polls once
+   * @returns Promise resolving once the poll is complete
+   */
+  abstract poll(): Promise<void>;
+
+  /**
+   * Starts polling
+   * The first poll runs on the next tick, so listeners can be attached first
+   */
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling
+   * A poll that is already running is not interrupted
+   */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Schedules the next poll
+   * @param delay - Delay before the poll (in milliseconds)
+   */
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.poll();
+      } catch (error) {
+        (this as EventEmitter).emit("error", error);
+      }
+
+      if (this.running) {
+        this.schedule(this.interval);
+      }
+    }, delay);
+  }
+}
@@ -0,0 +1,403 @@
+import type { BuildingLinkCalendarRecurrence, BuildingLinkEvent } from "./models/index";
+import { getZonedDateTime, parseUtcDate, zonedDateTimeToDate } from "./TimeZone";
+import type { ZonedDateTime } from "./TimeZone";
+
+/**
+ * Frequency of a recurrence rule
+ */
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/**
+ * Day of the week, as used by iCalendar
+ */
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+/**
+ * A day of the week a recurrence falls on
+ */
+export interface RecurrenceDay {
+  /** Day of the week */
+  weekday: Weekday;
+  /** Week of the month or year (1 for the first, -1 for the last), if the day is ordinal */
+  ordinal?: number;
+}
+
+/**
+ * A recurrence rule normalized from a BuildingLink recurrence
+ */
+export interface RecurrenceRule {
+  /** Frequency of the recurrence */
+  frequency: RecurrenceFrequency;
+  /** Number of frequency periods between occurrences */
+  interval: number;
+  /** Days of the week the recurrence falls on */
+  byDay: RecurrenceDay[];
+  /** Day of the month the recurrence falls on */
+  byMonthDay?: number;
+  /** Month the recurrence falls on, from 1 to 12 */
+  byMonth?: number;
+  /** Number of occurrences before the recurrence ends */
+  count?: number;
+  /** Last date of the recurrence, inclusive (the date at midnight UTC) */
+  until?: Date;
+}
+
+/** Days of the week, indexed like `Date.getDay()` */
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/** Days of the week from Monday to Friday */
+const WORKING_DAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+/** Patterns matching BuildingLink frequency names (e.g. "Daily", "Week") */
+const FREQUENCIES: [RegExp, RecurrenceFrequency][] = [
+  [/^(dai|day)/i, "DAILY"],
+  [/^week/i, "WEEKLY"],
+  [/^month/i, "MONTHLY"],
+  [/^(year|annual)/i, "YEARLY"],
+];
+
+/** Ordinal words used by BuildingLink for the week of the month */
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5, last: -1 };
+
+/**
+ * Parses a BuildingLink day of the week
+ * @param day - Day name (e.g. "Monday", "Mon"), iCalendar code or number (0 for Sunday)
+ * @returns The day of the week, if recognized
+ */
+function parseWeekday(day: string | number): Weekday | undefined {
+  if (typeof day === "number") {
+    return WEEKDAYS[day];
+  }
+
+  const value = day.trim().toUpperCase();
+  if (/^\d$/.test(value)) {
+    return WEEKDAYS[Number(value)];
+  }
+
+  return WEEKDAYS.find((weekday) => value.startsWith(weekday));
+}
+
+/**
+ * Parses the days of the week of a BuildingLink recurrence
+ * @param weekDays - Days as an array or a comma separated list
+ * @returns The days of the week, in order and without duplicates
+ */
+function parseWeekdays(weekDays: BuildingLinkCalendarRecurrence["weekDays"]): Weekday[] {
+  const days = typeof weekDays === "string" ? weekDays.split(/[,;\s]+/).filter(Boolean) : weekDays || [];
+  const parsed = new Set(days.map(parseWeekday));
+  return WEEKDAYS.filter((weekday) => parsed.has(weekday));
+}
+
+/**
+ * Parses the ordinal week of a BuildingLink recurrence
+ * @param xOfThe - Ordinal word (e.g. "First", "Last") or number
+ * @returns The ordinal (1 for the first, -1 for the last), if recognized
+ */
+function parseOrdinal(xOfThe: BuildingLinkCalendarRecurrence["xOfThe"]): number | undefined {
+  if (typeof xOfThe === "number") {
+    return xOfThe || undefined;
+  }
+
+  const value = xOfThe?.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+
+  return ORDINALS[value] ?? (Number(value) || undefined);
+}
+
+/**
+ * Normalizes a BuildingLink recurrence into a recurrence rule
+ * @param recurrence - The recurrence of an event
+ * @returns The recurrence rule, or undefined if the event doesn't repeat
+ */
+export function parseRecurrence(
+  recurrence: BuildingLinkCalendarRecurrence | null | undefined
+): RecurrenceRule | undefined {
+  const frequency = FREQUENCIES.find(([pattern]) => pattern.test(recurrence?.frequency.trim() || ""))?.[1];
+  if (!recurrence || !frequency) {
+    return undefined;
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Math.max(1, recurrence.interval || 1),
+    byDay: [],
+  };
+
+  const weekdays = parseWeekdays(recurrence.weekDays);
+  const ordinal = parseOrdinal(recurrence.xOfThe);
+
+  switch (frequency) {
+    case "DAILY":
+      // "Every weekday" is a weekly recurrence from Monday to Friday
+      if (recurrence.everyWeekday) {
+        rule.frequency = "WEEKLY";
+        rule.interval = 1;
+        rule.byDay = WORKING_DAYS.map((weekday) => ({ weekday }));
+      }
+      break;
+    case "WEEKLY":
+      rule.byDay = (recurrence.everyWeekday ? WORKING_DAYS : weekdays).map((weekday) => ({ weekday }));
+      break;
+    case "MONTHLY":
+    case "YEARLY":
+      // Either a day of the month, or e.g. the last Friday of the month
+      if (ordinal && weekdays.length) {
+        rule.byDay = weekdays.map((weekday) => ({ weekday, ordinal }));
+      } else if (recurrence.dayXOfTheMonth) {
+        rule.byMonthDay = recurrence.dayXOfTheMonth;
+      }
+
+      if (frequency === "YEARLY") {
+        const month = recurrence.xOfTheMonth || recurrence.yearlyEveryXMonth;
+        rule.byMonth = month >= 1 && month <= 12 ? month : undefined;
+        rule.interval = 1;
+      }
+      break;
+  }
+
+  if (!recurrence.noEnd) {
+    if (recurrence.endAfterTimes) {
+      rule.count = recurrence.endAfterTimes;
+    } else if (recurrence.endOn) {
+      // Only the date matters, the recurrence ends after the occurrences of that day
+      const endOn = parseUtcDate(recurrence.endOn);
+      rule.until = new Date(Date.UTC(endOn.getUTCFullYear(), endOn.getUTCMonth(), endOn.getUTCDate()));
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Formats a recurrence rule as an iCalendar RRULE value
+ * @param rule - The recurrence rule
+ * @param until - UNTIL value already formatted for the event's DTSTART, defaults to the UTC date-time
+ * @returns The RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ */
+export function formatRRule(rule: RecurrenceRule, until?: string): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+
+  if (rule.byDay.length) {
+    parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ""}${weekday}`).join(",")}`);
+  }
+
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+
+  if (rule.byMonth) {
+    parts.push(`BYMONTH=${rule.byMonth}`);
+  }
+
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${until ?? rule.until.toISOString().replace(/[-:]|\.\d{3}/g, "")}`);
+  }
+
+  return parts.join(";");
+}
+
+/**
+ * A single occurrence of a BuildingLink event
+ */
+export interface BuildingLinkEventOccurrence extends BuildingLinkEvent {
+  /** Unique identifier of the occurrence (`<id>:<start>`) */
+  occurrenceId: string;
+  /** Position of the occurrence in its series, starting at 1 */
+  occurrenceIndex: number;
+}
+
+/**
+ * Window to expand recurring events into
+ */
+export interface RecurrenceWindow {
+  /** Start of the window */
+  from: Date;
+  /** End of the window */
+  to: Date;
+  /** IANA time zone the recurrence is defined in (the building's `timeZoneCode`), defaults to UTC */
+  timeZone?: string;
+}
+
+/** Duration of a day in milliseconds */
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Number of consecutive periods without a matching day after which a recurrence is considered empty */
+const MAX_EMPTY_PERIODS = 100;
+
+/**
+ * Gets the number of days in a month
+ * @param year - Full year
+ * @param month - Month, from 1 to 12
+ * @returns The number of days
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Converts a calendar date represented as midnight UTC to its date fields
+ * @param date - The calendar date
+ * @returns The year, month and day
+ */
+function toZonedDate(date: Date): Pick<ZonedDateTime, "year" | "month" | "day"> {
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Gets the days of a month that fall on a recurrence day
+ * @param year - Full year
+ * @param month - Month, from 1 to 12
+ * @param day - The recurrence day, every matching weekday of the month if it has no ordinal
+ * @returns The matching days of the month
+ */
+function getMonthDays(year: number, month: number, { weekday, ordinal }: RecurrenceDay): number[] {
+  const length = daysInMonth(year, month);
+  const first = (WEEKDAYS.indexOf(weekday) - new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 7) % 7;
+  const days: number[] = [];
+
+  for (let day = first + 1; day <= length; day += 7) {
+    days.push(day);
+  }
+
+  if (!ordinal) {
+    return days;
+  }
+
+  const day = ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal];
+  return day ? [day] : [];
+}
+
+/**
+ * Gets the candidate dates of a period of a recurrence, in order
+ * Dates are represented as midnight UTC of the local calendar date.
+ *
+ * @param rule - The recurrence rule
+ * @param start - Local date of the first occurrence
+ * @param period - Index of the period, 0 being the period of the first occurrence
+ * @returns The candidate dates of the period
+ */
+function getPeriodDates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.frequency) {
+    case "DAILY":
+      return [new Date(start.getTime() + step * DAY)];
+    case "WEEKLY": {
+      // Weeks start on Monday, like the iCalendar default
+      const monday = start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY + step * 7 * DAY;
+      const weekdays = rule.byDay.length ? rule.byDay.map(({ weekday }) => weekday) : [WEEKDAYS[start.getUTCDay()]];
+
+      return weekdays
+        .map((weekday) => (WEEKDAYS.indexOf(weekday) + 6) % 7)
+        .sort((a, b) => a - b)
+        .map((offset) => new Date(monday + offset * DAY));
+    }
+    case "MONTHLY":
+    case "YEARLY": {
+      const months = rule.frequency === "MONTHLY" ? start.getUTCMonth() + step : start.getUTCMonth() + step * 12;
+      const year = start.getUTCFullYear() + Math.floor(months / 12);
+      const month = rule.frequency === "YEARLY" && rule.byMonth ? rule.byMonth : (months % 12) + 1;
+
+      let days: number[];
+      if (rule.byDay.length) {
+        days = rule.byDay.flatMap((day) => getMonthDays(year, month, day));
+      } else {
+        days = [rule.byMonthDay ?? start.getUTCDate()];
+      }
+
+      // Months without the day (e.g. the 31st) are skipped
+      return [...new Set(days)]
+        .filter((day) => day <= daysInMonth(year, month))
+        .sort((a, b) => a - b)
+        .map((day) => new Date(Date.UTC(year, month - 1, day)));
+    }
+  }
+}
+
+/**
+ * Expands an event into its occurrences within a window
+ * Occurrences keep the event's local start time and duration in the building's time zone, so they
+ * follow daylight saving time. `COUNT` end conditions count occurrences before the window too.
+ *
+ * @param event - The event, with its recurrence
+ * @param window - Window and time zone to expand the event in
+ * @returns The occurrences overlapping the window, in order
+ */
+export function expandEvent(event: BuildingLinkEvent, window: RecurrenceWindow): BuildingLinkEventOccurrence[] {
+  const { from, to, timeZone = "UTC" } = window;
+  const start = parseUtcDate(event.startDateUTC);
+  const duration = parseUtcDate(event.endDateUTC).getTime() - start.getTime();
+  const rule = parseRecurrence(event.calendarRecurrences);
+
+  const occurrence = (date: Date, index: number): BuildingLinkEventOccurrence => ({
+    ...event,
+    startDateUTC: date.toISOString(),
+    endDateUTC: new Date(date.getTime() + duration).toISOString(),
+    occurrenceId: `${event.id}:${date.toISOString()}`,
+    occurrenceIndex: index,
+  });
+
+  const overlaps = (date: Date) => date <= to && date.getTime() + duration > from.getTime();
+
+  if (!rule) {
+    return overlaps(start) ? [occurrence(start, 1)] : [];
+  }
+
+  const { hour, minute, second, ...local } = getZonedDateTime(start, timeZone);
+  const startDate = new Date(Date.UTC(local.year, local.month - 1, local.day));
+
+  const occurrences: BuildingLinkEventOccurrence[] = [];
+  let index = 0;
+  let emptyPeriods = 0;
+
+  for (let period = 0; ; period++) {
+    const dates = getPeriodDates(rule, startDate, period);
+
+    // Some periods have no matching day (e.g. no 31st), but a rule that never matches would loop forever
+    if (!dates.length) {
+      if (++emptyPeriods > MAX_EMPTY_PERIODS) return occurrences;
+      continue;
+    }
+
+    emptyPeriods = 0;
+
+    // Periods are in order, so stop once a period starts after the window
+    if (zonedDateTimeToDate(toZonedDate(dates[0]), timeZone) > to) {
+      return occurrences;
+    }
+
+    for (const date of dates) {
+      if (date < startDate) continue;
+      if (rule.until && date > rule.until) return occurrences;
+      if (rule.count && index >= rule.count) return occurrences;
+
+      const instant = zonedDateTimeToDate({ ...toZonedDate(date), hour, minute, second }, timeZone);
+      if (instant > to) return occurrences;
+
+      index++;
+      if (overlaps(instant)) {
+        occurrences.push(occurrence(instant, index));
+      }
+    }
+  }
+}
+
+/**
+ * Expands events into their occurrences within a window
+ * @param events - The events, with their recurrences
+ * @param window - Window and time zone to expand the events in
+ * @returns The occurrences of every event overlapping the window, ordered by start
+ */
+export function expandEvents(events: BuildingLinkEvent[], window: RecurrenceWindow): BuildingLinkEventOccurrence[] {
+  return events
+    .flatMap((event) => expandEvent(event, window))
+    .sort((a, b) => a.startDateUTC.localeCompare(b.startDateUTC));
+}
@@ -0,0 +1,106 @@
+/**
+ * Policy for retrying transient request failures
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry (in milliseconds), doubled for every retry after it */
+  baseDelay: number;
+  /** Maximum delay between attempts (in milliseconds), also caps Retry-After */
+  maxDelay: number;
+  /** Response status codes that are retried */
+  statuses: number[];
+  /** HTTP methods that are safe to retry */
+  methods: string[];
+}
+
+/**
+ * Details about a retry, passed to the retry hooks
+ */
+export interface RetryEvent {
+  /** URL of the request */
+  url: string;
+  /** HTTP method of the request */
+  method: string;
+  /** Attempt that failed, starting at 1 */
+  attempt: number;
+  /** Delay before the next attempt (in milliseconds) */
+  delay: number;
+  /** Response that triggered the retry, if the server responded */
+  response?: Response;
+  /** Error that triggered the retry, if the request failed */
+  error?: unknown;
+}
+
+/** Default retry policy */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30 * 1000,
+  statuses: [408, 429, 500, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+};
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date
+ * @param value - The Retry-After header value
+ * @returns The delay in milliseconds, if the header is valid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes the delay before the next attempt
+ * Uses the server's Retry-After when provided, otherwise exponential backoff with full jitter
+ *
+ * @param policy - The retry policy
+ * @param attempt - Attempt that failed, starting at 1
+ * @param response - Response that triggered the retry, if any
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, response?: Response): number {
+  const retryAfter = parseRetryAfter(response?.headers?.get("retry-after"));
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, policy.maxDelay);
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * backoff);
+}
+
+/**
+ * Waits for the given amount of time
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Signal that cancels the wait, if any
+ * @returns Promise resolving after the delay, or rejecting with the signal's reason once it is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,37 @@
+import { MemoryStore, FileStore } from "./Store";
+import type { Store } from "./Store";
+import type { BuildingLinkToken } from "./models/index";
+
+/**
+ * Session state persisted between client instances
+ */
+export interface BuildingLinkSession {
+  /** Session cookies */
+  cookies: Record<string, string>;
+  /** Authentication token */
+  token?: BuildingLinkToken;
+  /** Time the authentication token expires (in milliseconds since epoch) */
+  tokenExpiresAt?: number;
+}
+
+/**
+ * Storage backend for BuildingLink sessions
+ */
+export type SessionStore = Store<BuildingLinkSession>;
+
+/**
+ * Session store that keeps the session in memory
+ * Useful for sharing a session between client instances in the same process
+ */
+export class MemorySessionStore extends MemoryStore<BuildingLinkSession> {}
+
+/**
+ * Session store that persists the session to a JSON file
+ * The file contains credentials, so it is only readable by the current user
+ */
+export class FileSessionStore extends FileStore<BuildingLinkSession> {
+  async load(): Promise<BuildingLinkSession | undefined> {
+    const session = await super.load();
+    return session?.cookies ? session : undefined;
+  }
+}
@@ -0,0 +1,82 @@
+import { mkdir, readFile, writeFile, rm } from "fs/promises";
+import { dirname } from "path";
+
+/**
+ * Storage backend for state persisted between client instances
+ */
+export interface Store<T> {
+  /** Loads the stored value, if any */
+  load(): Promise<T | undefined>;
+  /** Saves the value */
+  save(value: T): Promise<void>;
+  /** Removes the stored value */
+  clear(): Promise<void>;
+}
+
+/**
+ * Store that keeps the value in memory
+ * Useful for sharing state between client instances in the same process
+ */
+export class MemoryStore<T> implements Store<T> {
+  /** Stored value */
+  private value: T | undefined;
+
+  /**
+   * Creates a new in-memory store
+   * @param value - Optional initial value
+   */
+  constructor(value?: T) {
+    this.value = value;
+  }
+
+  async load(): Promise<T | undefined> {
+    return this.value === undefined ? undefined : structuredClone(this.value);
+  }
+
+  async save(value: T): Promise<void> {
+    this.value = structuredClone(value);
+  }
+
+  async clear(): Promise<void> {
+    this.value = undefined;
+  }
+}
+
+/**
+ * Store that persists the value to a JSON file
+ * The file may contain credentials, so it is only readable by the current user
+ */
+export class FileStore<T> implements Store<T> {
+  /** Path to the JSON file */
+  public readonly path: string;
+
+  /**
+   * Creates a new JSON file store
+   * @param path - Path to the JSON file
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<T | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (error) {
+      // A missing or corrupt file just means nothing was stored yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT" || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(value: T): Promise<void> {
+    // Default locations like ~/.cache/buildinglink don't exist on a fresh machine
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(value, null, 2), { mode: 0o600 });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.path, { force: true });
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Date and time fields of an instant in a time zone
+ */
+export interface ZonedDateTime {
+  /** Full year */
+  year: number;
+  /** Month, from 1 to 12 */
+  month: number;
+  /** Day of the month, from 1 to 31 */
+  day: number;
+  /** Hour, from 0 to 23 */
+  hour: number;
+  /** Minute, from 0 to 59 */
+  minute: number;
+  /** Second, from 0 to 59 */
+  second: number;
+}
+
+/** Formatters are expensive to create, so they are cached per time zone */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets a cached formatter for a time zone
+ * @param timeZone - IANA time zone name
+ * @returns The formatter
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Parses a timestamp from the BuildingLink API as UTC
+ * The API omits the offset on some UTC fields, which `new Date()` would read as local time
+ *
+ * @param value - ISO 8601 timestamp
+ * @returns The date
+ */
+export function parseUtcDate(value: string): Date {
+  const hasOffset = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value);
+  const hasTime = value.includes("T");
+  return new Date(hasOffset || !hasTime ? value : `${value}Z`);
+}
+
+/**
+ * Gets the date and time fields of an instant in a time zone
+ * @param date - The instant
+ * @param timeZone - IANA time zone name
+ * @returns The date and time fields in the time zone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map(({ type, value }) => [type, Number(value)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Gets the offset of a time zone from UTC at an instant
+ * @param date - The instant
+ * @param timeZone - IANA time zone name
+ * @returns The offset in minutes, e.g. -300 for UTC-05:00
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedDateTime(date, timeZone);
+  const local = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in a time zone to an instant
+ * Times skipped by a daylight saving transition resolve to the later offset
+ *
+ * @param local - The date and time fields in the time zone (missing time fields default to midnight)
+ * @param timeZone - IANA time zone name
+ * @returns The instant
+ */
+export function zonedDateTimeToDate(
+  local: Pick<ZonedDateTime, "year" | "month" | "day"> & Partial<ZonedDateTime>,
+  timeZone: string
+): Date {
+  const { year, month, day, hour = 0, minute = 0, second = 0 } = local;
+  const utc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Guess with the offset at the wall-clock time, then correct for a transition in between
+  let date = new Date(utc - getTimeZoneOffset(new Date(utc), timeZone) * 60000);
+  date = new Date(utc - getTimeZoneOffset(date, timeZone) * 60000);
+
+  return date;
+}
+
+/**
+ * Checks if a time zone is supported by the runtime
+ * @param timeZone - IANA time zone name
+ * @returns True if the time zone is valid
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A calendar date, either as a `YYYY-MM-DD` string or as a Date read in the relevant time zone
+ */
+export type DateInput = Date | string;
+
+/** Number of days ahead event ranges cover when none is given */
+export const DEFAULT_EVENT_DAYS = 30;
+
+/** Matches calendar date strings */
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Gets the calendar date of a date input in a time zone
+ * @param input - `YYYY-MM-DD` string, or a Date whose date is read in the time zone
+ * @param timeZone - IANA time zone name
+ * @returns The year, month and day
+ */
+export function getZonedDate(input: DateInput, timeZone: string): Pick<ZonedDateTime, "year" | "month" | "day"> {
+  const match = typeof input === "string" ? input.match(CALENDAR_DATE_PATTERN) : null;
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+
+  const { year, month, day } = getZonedDateTime(new Date(input), timeZone);
+  return { year, month, day };
+}
+
+/**
+ * Formats the calendar date of a date input in a time zone
+ * @param input - `YYYY-MM-DD` string, or a Date whose date is read in the time zone
+ * @param timeZone - IANA time zone name
+ * @returns The date, e.g. "2024-07-01"
+ */
+export function formatZonedDate(input: DateInput, timeZone: string): string {
+  const { year, month, day } = getZonedDate(input, timeZone);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Gets the first instant of a calendar day in a time zone
+ * @param input - The calendar date
+ * @param timeZone - IANA time zone name
+ * @returns The start of the day
+ */
+export function startOfDay(input: DateInput, timeZone: string): Date {
+  return zonedDateTimeToDate(getZonedDate(input, timeZone), timeZone);
+}
+
+/**
+ * Gets the last instant of a calendar day in a time zone
+ * @param input - The calendar date
+ * @param timeZone - IANA time zone name
+ * @returns The end of the day, a millisecond before the next one starts
+ */
+export function endOfDay(input: DateInput, timeZone: string): Date {
+  const { year, month, day } = getZonedDate(input, timeZone);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  const start = { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+  return new Date(zonedDateTimeToDate(start, timeZone).getTime() - 1);
+}
+
+/** Keys of model fields holding timestamps */
+type TimestampKey = `${string}Date` | `${string}DateTime` | `${string}DateUTC` | `${string}At` | `${string}On`;
+
+/** A timestamp field as a Date, keeping null and undefined */
+type Timestamp<V> = V extends string ? Date : V;
+
+/**
+ * A model with its timestamp fields as Date objects
+ */
+export type WithDates<T> = T extends Date
+  ? T
+  : T extends (infer U)[]
+  ? WithDates<U>[]
+  : T extends object
+  ? { [K in keyof T]: K extends TimestampKey ? Timestamp<T[K]> : WithDates<T[K]> }
+  : T;
+
+/** Matches the names of timestamp fields, e.g. `startDateUTC`, `OpenDate`, `createdDateTime` */
+const TIMESTAMP_KEY_PATTERN = /(Date|DateTime|DateUTC|At|On)$/;
+
+/** Matches ISO 8601 timestamps */
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}(T|$)/;
+
+/**
+ * Converts the timestamp fields of a model to Date objects
+ * Fields are recognized by name (e.g. `startDateUTC`, `OpenDate`, `createdDateTime`), and timestamps
+ * without an offset are read as UTC, like the BuildingLink API sends them.
+ *
+ * @param value - A model, or an array of models
+ * @returns A copy with the timestamps as Date objects
+ */
+export function parseTimestamps<T>(value: T): WithDates<T> {
+  if (Array.isArray(value)) {
+    return value.map(parseTimestamps) as WithDates<T>;
+  }
+
+  if (!value || typeof value !== "object" || value instanceof Date) {
+    return value as WithDates<T>;
+  }
+
+  const entries = Object.entries(value).map(([key, field]) => {
+    if (TIMESTAMP_KEY_PATTERN.test(key) && typeof field === "string" && TIMESTAMP_PATTERN.test(field)) {
+      return [key, parseUtcDate(field)];
+    }
+
+    return [key, parseTimestamps(field)];
+  });
+
+  return Object.fromEntries(entries) as WithDates<T>;
+}
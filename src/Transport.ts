@@ -0,0 +1,318 @@
+import { readFile, writeFile } from "fs/promises";
+
+/**
+ * Fetch implementation used by the client to make requests
+ */
+export type FetchImplementation = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * A recorded request/response exchange
+ */
+export interface FixtureExchange {
+  /** The recorded request */
+  request: {
+    /** HTTP method */
+    method: string;
+    /** Request URL, with secrets scrubbed */
+    url: string;
+    /** Request body, with secrets scrubbed */
+    body?: string;
+  };
+  /** The recorded response */
+  response: {
+    /** HTTP status code */
+    status: number;
+    /** Response headers, with secrets scrubbed */
+    headers: [string, string][];
+    /** Response body, with secrets scrubbed if it is text */
+    body: string;
+    /** Encoding of the body */
+    encoding: "utf8" | "base64";
+  };
+}
+
+/**
+ * A fixture file containing recorded exchanges
+ */
+export interface Fixture {
+  /** Recorded exchanges, in the order they were made */
+  exchanges: FixtureExchange[];
+}
+
+/**
+ * Options for recording exchanges
+ */
+export interface RecordingTransportOptions {
+  /** Fetch implementation used to make the real requests */
+  fetch?: FetchImplementation;
+  /** Additional values to scrub from the recording (e.g. username, password, names) */
+  secrets?: string[];
+}
+
+/** Placeholder for scrubbed values */
+const REDACTED = "REDACTED";
+
+/** Form fields, query parameters and hidden inputs holding credentials or tokens */
+const SECRET_FIELDS = [
+  "Username",
+  "Password",
+  "__RequestVerificationToken",
+  "code",
+  "id_token",
+  "access_token",
+  "state",
+  "session_state",
+];
+
+/** Headers that are never written to a recording */
+const SECRET_HEADERS = ["authorization", "cookie", "x-api-key", "ocp-apim-subscription-key"];
+
+/** Matches JSON Web Tokens */
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+
+/** Matches text content types, which are stored as scrubbed text rather than base64 */
+const TEXT_CONTENT_TYPE_PATTERN = /^text\/|json|xml|javascript|x-www-form-urlencoded/;
+
+/** Status codes that can't have a response body */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Scrubs secret query parameters from a URL
+ * @param url - The URL to scrub
+ * @returns The scrubbed URL
+ */
+export function scrubUrl(url: string): string {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  for (const field of SECRET_FIELDS) {
+    if (parsed.searchParams.has(field)) {
+      parsed.searchParams.set(field, REDACTED);
+    }
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Scrubs secrets from text content
+ * @param text - The text to scrub
+ * @param secrets - Additional values to scrub
+ * @returns The scrubbed text
+ */
+function scrubText(text: string, secrets: string[]): string {
+  for (const secret of secrets.filter(Boolean)) {
+    text = text.split(secret).join(REDACTED).split(encodeURIComponent(secret)).join(REDACTED);
+  }
+
+  // Hidden inputs carrying tokens, with the value either before or after the name
+  for (const field of SECRET_FIELDS) {
+    text = text
+      .replace(new RegExp(`(<input[^>]*name="${field}"[^>]*value=")[^"]*(")`, "g"), `$1${REDACTED}$2`)
+      .replace(new RegExp(`(<input[^>]*value=")[^"]*("[^>]*name="${field}")`, "g"), `$1${REDACTED}$2`);
+  }
+
+  return text.replace(JWT_PATTERN, REDACTED);
+}
+
+/**
+ * Serializes and scrubs a request body
+ * @param body - The request body
+ * @param secrets - Additional values to scrub
+ * @returns The scrubbed body, if it can be serialized
+ */
+function scrubBody(body: RequestInit["body"], secrets: string[]): string | undefined {
+  if (body instanceof URLSearchParams) {
+    const params = new URLSearchParams(body);
+    for (const field of SECRET_FIELDS) {
+      if (params.has(field)) params.set(field, REDACTED);
+    }
+    return scrubText(params.toString(), secrets);
+  }
+
+  if (typeof body === "string") {
+    return scrubText(body, secrets);
+  }
+
+  return undefined;
+}
+
+/**
+ * Scrubs secrets from a response header
+ * @param name - Header name
+ * @param value - Header value
+ * @param secrets - Additional values to scrub
+ * @returns The scrubbed header value
+ */
+function scrubHeader(name: string, value: string, secrets: string[]): string {
+  switch (name) {
+    // Keep the cookie name and attributes, the client relies on the names
+    case "set-cookie":
+      return value.replace(/^([^=]+)=[^;]*/, `$1=${REDACTED}`);
+    case "location":
+      return scrubText(scrubUrl(value), secrets);
+    default:
+      return scrubText(value, secrets);
+  }
+}
+
+/**
+ * Builds the key used to match a request to a recorded exchange
+ * @param method - HTTP method
+ * @param url - Request URL
+ * @returns The request key
+ */
+function requestKey(method: string | undefined, url: string): string {
+  return `${(method || "GET").toUpperCase()} ${scrubUrl(url)}`;
+}
+
+/**
+ * Gets the URL of a fetch input
+ * @param input - The fetch input
+ * @returns The URL as a string
+ */
+function inputUrl(input: string | URL | Request): string {
+  return input instanceof Request ? input.url : input.toString();
+}
+
+/**
+ * Transport that makes real requests and records the exchanges with secrets scrubbed
+ * Pass `transport.fetch` as the client's `fetch` option, then call `save()` to write the fixture
+ */
+export class RecordingTransport {
+  /** Path to the fixture file */
+  public readonly path: string;
+  /** Recorded exchanges */
+  public readonly exchanges: FixtureExchange[] = [];
+  /** Recording options */
+  private options: RecordingTransportOptions;
+
+  /**
+   * Creates a new recording transport
+   * @param path - Path to the fixture file
+   * @param options - Recording options
+   */
+  constructor(path: string, options: RecordingTransportOptions = {}) {
+    this.path = path;
+    this.options = options;
+  }
+
+  /**
+   * Makes the request and records the exchange
+   * @param input - Request URL
+   * @param init - Fetch API options
+   * @returns Promise resolving to the real response
+   */
+  fetch: FetchImplementation = async (input, init = {}) => {
+    const { fetch: fetchImplementation = globalThis.fetch, secrets = [] } = this.options;
+    const response = await fetchImplementation(input, init);
+
+    // Read the body from a clone so the caller can still consume the response
+    const bytes = Buffer.from(await response.clone().arrayBuffer());
+    const isText = TEXT_CONTENT_TYPE_PATTERN.test(response.headers.get("content-type") || "");
+
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => {
+      if (name === "set-cookie" || SECRET_HEADERS.includes(name)) return;
+      headers.push([name, scrubHeader(name, value, secrets)]);
+    });
+    response.headers.getSetCookie().forEach((value) => {
+      headers.push(["set-cookie", scrubHeader("set-cookie", value, secrets)]);
+    });
+
+    this.exchanges.push({
+      request: {
+        method: (init.method || "GET").toUpperCase(),
+        url: scrubText(scrubUrl(inputUrl(input)), secrets),
+        body: scrubBody(init.body, secrets),
+      },
+      response: {
+        status: response.status,
+        headers,
+        body: isText ? scrubText(bytes.toString("utf8"), secrets) : bytes.toString("base64"),
+        encoding: isText ? "utf8" : "base64",
+      },
+    });
+
+    return response;
+  };
+
+  /**
+   * Writes the recorded exchanges to the fixture file
+   * @returns {Promise<void>} Promise resolving once the fixture is written
+   */
+  async save(): Promise<void> {
+    const fixture: Fixture = { exchanges: this.exchanges };
+    await writeFile(this.path, JSON.stringify(fixture, null, 2) + "\n");
+  }
+}
+
+/**
+ * Transport that replays recorded exchanges instead of making requests
+ * Requests are matched by method and URL, and repeated requests replay in the order they were recorded
+ */
+export class ReplayTransport {
+  /** Path to the fixture file */
+  public readonly path: string;
+  /** Remaining exchanges, keyed by request */
+  private exchanges: Promise<Map<string, FixtureExchange[]>> | undefined;
+
+  /**
+   * Creates a new replay transport
+   * @param path - Path to the fixture file
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Loads the fixture file, grouping the exchanges by request
+   * @returns Promise resolving to the exchanges keyed by request
+   */
+  private load(): Promise<Map<string, FixtureExchange[]>> {
+    this.exchanges ??= (async () => {
+      const fixture: Fixture = JSON.parse(await readFile(this.path, "utf8"));
+      const exchanges = new Map<string, FixtureExchange[]>();
+
+      for (const exchange of fixture.exchanges) {
+        const key = requestKey(exchange.request.method, exchange.request.url);
+        exchanges.set(key, [...(exchanges.get(key) || []), exchange]);
+      }
+
+      return exchanges;
+    })();
+
+    return this.exchanges;
+  }
+
+  /**
+   * Replays the recorded response for the request
+   * @param input - Request URL
+   * @param init - Fetch API options
+   * @returns Promise resolving to the recorded response
+   * @throws Error if no recorded exchange matches the request
+   */
+  fetch: FetchImplementation = async (input, init = {}) => {
+    const url = inputUrl(input);
+    const key = requestKey(init.method, url);
+    const exchange = (await this.load()).get(key)?.shift();
+
+    if (!exchange) {
+      throw new Error(`No recorded exchange for ${key} in ${this.path}`);
+    }
+
+    const { status, headers, body, encoding } = exchange.response;
+    const content = NULL_BODY_STATUSES.includes(status) ? null : Buffer.from(body, encoding);
+    const response = new Response(content, { status, headers });
+
+    // Response.url can't be set through the constructor
+    Object.defineProperty(response, "url", { value: url });
+
+    return response;
+  };
+}
@@ -0,0 +1,116 @@
+import type { HTMLElement } from "node-html-parser";
+
+/**
+ * Options for an ASP.NET WebForms postback
+ */
+export interface PostbackOptions {
+  /** Control that raised the postback (`__EVENTTARGET`) */
+  eventTarget?: string;
+  /** Argument of the postback (`__EVENTARGUMENT`) */
+  eventArgument?: string;
+  /** Form fields to add or override, e.g. the name and value of a clicked submit button */
+  fields?: Record<string, string>;
+  /** Selector of the form to submit, defaults to the first form of the page */
+  form?: string;
+}
+
+/**
+ * A postback request built from a WebForms page
+ */
+export interface PostbackRequest {
+  /** Absolute URL the form posts back to */
+  action: string;
+  /** Form fields, including the hidden WebForms state */
+  body: URLSearchParams;
+}
+
+/** Input types that are only submitted when they are the clicked control */
+const BUTTON_INPUT_TYPES = ["submit", "button", "image", "reset", "file"];
+
+/**
+ * Parses the target and argument of a `__doPostBack(...)` call, e.g. from a link's href
+ * @param script - JavaScript containing the `__doPostBack` call
+ * @returns The event target and argument, if the script is a postback
+ */
+export function parseDoPostBack(
+  script: string | undefined
+): { eventTarget: string; eventArgument: string } | undefined {
+  const match = script?.match(/__doPostBack\(\s*(['"])(.*?)\1\s*,\s*(['"])(.*?)\3\s*\)/);
+  return match ? { eventTarget: match[2], eventArgument: match[4] } : undefined;
+}
+
+/**
+ * Collects the fields a browser would submit with a form
+ * Includes hidden state such as `__VIEWSTATE` and `__EVENTVALIDATION`, but no buttons
+ *
+ * @param form - The form element
+ * @returns The form fields, in document order
+ */
+export function getFormFields(form: HTMLElement): [string, string][] {
+  const fields: [string, string][] = [];
+
+  for (const element of form.querySelectorAll("input, select, textarea")) {
+    const name = element.getAttribute("name");
+    if (!name || element.hasAttribute("disabled")) continue;
+
+    const tag = element.tagName.toLowerCase();
+    const type = (element.getAttribute("type") || "text").toLowerCase();
+
+    if (tag === "select") {
+      const options = element.querySelectorAll("option");
+      const selected = options.filter((option) => option.hasAttribute("selected"));
+
+      // Without an explicit selection, single selects submit their first option
+      const submitted = selected.length || element.hasAttribute("multiple") ? selected : options.slice(0, 1);
+      for (const option of submitted) {
+        fields.push([name, option.getAttribute("value") ?? option.textContent]);
+      }
+    } else if (tag === "textarea") {
+      fields.push([name, element.textContent]);
+    } else if (BUTTON_INPUT_TYPES.includes(type)) {
+      continue;
+    } else if (type === "checkbox" || type === "radio") {
+      if (element.hasAttribute("checked")) {
+        fields.push([name, element.getAttribute("value") ?? "on"]);
+      }
+    } else {
+      fields.push([name, element.getAttribute("value") ?? ""]);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Builds the postback request for a WebForms page
+ * @param document - The parsed page
+ * @param url - URL of the page, used to resolve the form action
+ * @param options - Event target, argument and fields of the postback
+ * @returns The postback request, or undefined if the page has no form
+ */
+export function buildPostback(
+  document: HTMLElement,
+  url: string,
+  options: PostbackOptions = {}
+): PostbackRequest | undefined {
+  const form = document.querySelector(options.form || "form");
+  if (!form) {
+    return undefined;
+  }
+
+  const body = new URLSearchParams(getFormFields(form));
+
+  if (options.eventTarget !== undefined) {
+    body.set("__EVENTTARGET", options.eventTarget);
+    body.set("__EVENTARGUMENT", options.eventArgument ?? "");
+  }
+
+  for (const [name, value] of Object.entries(options.fields || {})) {
+    body.set(name, value);
+  }
+
+  return {
+    action: new URL(form.getAttribute("action") || url, url).toString(),
+    body,
+  };
+}
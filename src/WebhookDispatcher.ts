@@ -0,0 +1,401 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { BuildingLink, PropertyOptions } from "./BuildingLink";
+import { WebhookResponseError } from "./Errors";
+import { Poller } from "./Poller";
+import type { PollerEvents } from "./Poller";
+import { DEFAULT_EVENT_DAYS } from "./TimeZone";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, sleep } from "./Retry";
+import type { RetryPolicy } from "./Retry";
+import type { Store } from "./Store";
+import type { FetchImplementation } from "./Transport";
+
+/**
+ * Kinds of items the dispatcher sends
+ */
+export type WebhookResource = "delivery" | "announcement" | "event";
+
+/**
+ * A webhook to send new items to
+ */
+export interface WebhookTarget {
+  /** URL the payloads are POSTed to, also identifies the target's cursor */
+  url: string;
+  /** Secret used to sign the payloads, if any */
+  secret?: string;
+  /** Kinds of items to send (defaults to all of them) */
+  resources?: WebhookResource[];
+  /** Additional request headers (e.g. an API key of the receiving tool) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * JSON body sent to the webhooks
+ */
+export interface WebhookPayload<T = unknown> {
+  /** Identifies the item, stable across retries and targets (e.g. `delivery:1234`) */
+  id: string;
+  /** What happened, e.g. `delivery.created` */
+  type: `${WebhookResource}.created`;
+  /** Kind of item */
+  resource: WebhookResource;
+  /** When the dispatcher first saw the item (ISO 8601), the same for every target and retry */
+  createdAt: string;
+  /** The item, as returned by the client */
+  data: T;
+}
+
+/**
+ * A payload that couldn't be delivered, as written to the dead-letter file
+ */
+export interface WebhookDeadLetter {
+  /** URL of the target */
+  url: string;
+  /** The payload */
+  payload: WebhookPayload;
+  /** Why the last attempt failed */
+  error: string;
+  /** Number of attempts made */
+  attempts: number;
+  /** When the payload was given up on (ISO 8601) */
+  failedAt: string;
+}
+
+/**
+ * Items handled for each target, persisted between polls
+ */
+export interface WebhookDispatcherState {
+  /** IDs of the delivered or dead-lettered items, keyed by target URL and kind */
+  cursors: Record<string, Partial<Record<WebhookResource, string[]>>>;
+  /** When each current item was first seen (ISO 8601), keyed by payload ID */
+  firstSeen?: Record<string, string>;
+}
+
+/**
+ * Options for dispatching webhooks
+ */
+export interface WebhookDispatcherOptions extends PropertyOptions {
+  /** Webhooks to send new items to */
+  targets: WebhookTarget[];
+  /** Time between polls (in milliseconds, defaults to 5 minutes) */
+  interval?: number;
+  /** Store used to persist the cursors, so restarts don't resend items */
+  store?: Store<WebhookDispatcherState>;
+  /** JSON Lines file that payloads are appended to once their retries are exhausted */
+  deadLetterFile?: string;
+  /** Policy for retrying failed webhook requests */
+  retry?: Partial<Pick<RetryPolicy, "maxAttempts" | "baseDelay" | "maxDelay" | "statuses">>;
+  /** Skip the items that already exist when a target is first polled, instead of sending them all */
+  skipExisting?: boolean;
+  /** Number of days ahead to look for events (defaults to 30) */
+  eventDays?: number;
+  /** Fetch implementation used to call the webhooks */
+  fetch?: FetchImplementation;
+}
+
+/**
+ * Events emitted by the webhook dispatcher
+ */
+export interface WebhookDispatcherEvents extends PollerEvents {
+  /** A payload was accepted by a target */
+  delivered: [target: WebhookTarget, payload: WebhookPayload];
+  /** A payload was given up on and dead-lettered */
+  failed: [target: WebhookTarget, payload: WebhookPayload, error: unknown];
+}
+
+/** Every kind of item, in the order they are sent */
+const WEBHOOK_RESOURCES: WebhookResource[] = ["delivery", "announcement", "event"];
+
+/** Header holding the payload ID */
+export const WEBHOOK_ID_HEADER = "x-buildinglink-webhook-id";
+
+/** Header holding the time the payload was signed (in seconds since the epoch) */
+export const WEBHOOK_TIMESTAMP_HEADER = "x-buildinglink-webhook-timestamp";
+
+/** Header holding the signature of the payload */
+export const WEBHOOK_SIGNATURE_HEADER = "x-buildinglink-webhook-signature";
+
+/**
+ * Signs a webhook body
+ * @param secret - The target's secret
+ * @param timestamp - Time of signing (in seconds since the epoch)
+ * @param body - The JSON body
+ * @returns The signature, e.g. `sha256=9f86d0...`
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Checks the signature of a received webhook, for receivers written in TypeScript
+ * @param secret - The target's secret
+ * @param timestamp - Value of the timestamp header
+ * @param body - The raw JSON body
+ * @param signature - Value of the signature header
+ * @returns Whether the signature matches
+ */
+export function verifyWebhook(secret: string, timestamp: number | string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhook(secret, Number(timestamp), body));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Polls deliveries, announcements and events, and POSTs the new ones to webhooks as signed JSON
+ * Each target keeps its own cursor, so an item is sent to every target exactly once,
+ * even when another target is down. Items that exhaust their retries are dead-lettered
+ * and not retried on later polls.
+ */
+export class WebhookDispatcher extends Poller<WebhookDispatcherEvents> {
+  /** Client used to fetch the items */
+  private client: BuildingLink;
+  /** Dispatcher options */
+  private options: WebhookDispatcherOptions;
+  /** Cursors, loaded from the store on the first poll */
+  private state: WebhookDispatcherState | undefined;
+
+  /**
+   * Creates a new webhook dispatcher
+   * @param client - Client used to fetch the items
+   * @param options - Targets, polling interval, cursor store and retry options
+   */
+  constructor(client: BuildingLink, options: WebhookDispatcherOptions) {
+    super(options.interval);
+    this.client = client;
+    this.options = { eventDays: DEFAULT_EVENT_DAYS, ...options };
+  }
+
+  /**
+   * Gets the retry policy, with defaults applied
+   * @returns The retry policy
+   */
+  private get retryPolicy(): RetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...this.options.retry };
+  }
+
+  /**
+   * Fetches the items once and sends the new ones to every target
+   * A kind of item that fails to fetch is skipped until the next poll, the others are still sent
+   *
+   * @returns Promise resolving once every payload is delivered or dead-lettered
+   * @throws The first fetch error, after the other kinds of items are sent
+   */
+  async poll(): Promise<void> {
+    const { store, targets } = this.options;
+
+    this.state ??= (await store?.load()) ?? { cursors: {} };
+
+    const wanted = WEBHOOK_RESOURCES.filter((resource) =>
+      targets.some(({ resources = WEBHOOK_RESOURCES }) => resources.includes(resource))
+    );
+
+    let failure: unknown;
+
+    for (const resource of wanted) {
+      let items: Map<string, unknown>;
+
+      try {
+        items = await this.fetchItems(resource);
+      } catch (error) {
+        failure ??= error;
+        continue;
+      }
+
+      this.recordFirstSeen(resource, items);
+
+      for (const target of targets) {
+        if ((target.resources ?? WEBHOOK_RESOURCES).includes(resource)) {
+          await this.dispatch(target, resource, items);
+        }
+      }
+    }
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Fetches the current items of a kind
+   * @param resource - Kind of item
+   * @returns Promise resolving to the items, keyed by ID
+   */
+  private async fetchItems(resource: WebhookResource): Promise<Map<string, unknown>> {
+    const { propertyId, eventDays } = this.options;
+
+    switch (resource) {
+      case "delivery": {
+        const deliveries = await this.client.getDeliveries({ status: "open", propertyId });
+        return new Map(deliveries.map((delivery) => [String(delivery.Id), delivery]));
+      }
+
+      case "announcement": {
+        const announcements = await this.client.getAnnouncements({ propertyId });
+        return new Map(announcements.map((announcement) => [announcement.id, announcement]));
+      }
+
+      case "event": {
+        const from = new Date();
+        const to = new Date(from.getTime() + eventDays! * 24 * 60 * 60 * 1000);
+        const events = await this.client.getEvents(from, to, { propertyId });
+        return new Map(events.map((event) => [String(event.id), event]));
+      }
+    }
+  }
+
+  /**
+   * Records when the new items of a kind were first seen, and forgets the items that are gone
+   * Saved along with the cursors, so payloads keep their `createdAt` across targets, polls and restarts
+   *
+   * @param resource - Kind of the items
+   * @param items - Current items, keyed by ID
+   */
+  private recordFirstSeen(resource: WebhookResource, items: Map<string, unknown>): void {
+    const firstSeen = (this.state!.firstSeen ??= {});
+    const now = new Date().toISOString();
+
+    for (const key of Object.keys(firstSeen)) {
+      if (key.startsWith(`${resource}:`) && !items.has(key.slice(resource.length + 1))) {
+        delete firstSeen[key];
+      }
+    }
+
+    for (const id of items.keys()) {
+      firstSeen[`${resource}:${id}`] ??= now;
+    }
+  }
+
+  /**
+   * Sends the items a target hasn't received yet, saving its cursor after each one
+   * The cursor only keeps the IDs that are still current, so it doesn't grow forever
+   *
+   * @param target - The target
+   * @param resource - Kind of the items
+   * @param items - Current items, keyed by ID
+   * @returns Promise resolving once every new item is delivered or dead-lettered
+   */
+  private async dispatch(target: WebhookTarget, resource: WebhookResource, items: Map<string, unknown>): Promise<void> {
+    const cursors = (this.state!.cursors[target.url] ??= {});
+    const isFirstPoll = !cursors[resource];
+    const handled = new Set((cursors[resource] ?? []).filter((id) => items.has(id)));
+
+    const save = async () => {
+      cursors[resource] = [...handled];
+      await this.options.store?.save(this.state!);
+    };
+
+    if (isFirstPoll && this.options.skipExisting) {
+      items.forEach((_, id) => handled.add(id));
+      return save();
+    }
+
+    await save();
+
+    for (const [id, data] of items) {
+      if (handled.has(id)) continue;
+
+      const payload: WebhookPayload = {
+        id: `${resource}:${id}`,
+        type: `${resource}.created`,
+        resource,
+        createdAt: this.state!.firstSeen![`${resource}:${id}`],
+        data,
+      };
+
+      const delivered = await this.send(target, payload);
+      handled.add(id);
+      await save();
+
+      // Emitted once the payload is recorded, so a throwing listener can't get it dead-lettered or sent twice
+      if (delivered) {
+        this.emit("delivered", target, payload);
+      }
+    }
+  }
+
+  /**
+   * Sends a payload to a target, retrying transient failures
+   * Payloads that exhaust their retries are dead-lettered instead of throwing
+   *
+   * @param target - The target
+   * @param payload - The payload
+   * @returns Promise resolving to true once the payload is delivered, or false once it is dead-lettered
+   */
+  private async send(target: WebhookTarget, payload: WebhookPayload): Promise<boolean> {
+    const policy = this.retryPolicy;
+    const fetch = this.options.fetch ?? globalThis.fetch;
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | undefined;
+
+      try {
+        const timestamp = Math.floor(Date.now() / 1000);
+
+        response = await fetch(target.url, {
+          method: "POST",
+          headers: {
+            ...target.headers,
+            "Content-Type": "application/json",
+            [WEBHOOK_ID_HEADER]: payload.id,
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            ...(target.secret && { [WEBHOOK_SIGNATURE_HEADER]: signWebhook(target.secret, timestamp, body) }),
+          },
+          body,
+        });
+
+        // Read the body so the connection can be reused
+        const text = await response.text().catch(() => "");
+
+        if (response.ok) {
+          return true;
+        }
+
+        throw new WebhookResponseError(response.status, target.url, text);
+      } catch (error) {
+        // Network errors and transient statuses are retried, other statuses won't get better
+        const isTransient = response ? policy.statuses.includes(response.status) : true;
+
+        if (!isTransient || attempt >= policy.maxAttempts) {
+          await this.deadLetter(target, payload, error, attempt);
+          return false;
+        }
+
+        await sleep(getRetryDelay(policy, attempt, response));
+      }
+    }
+  }
+
+  /**
+   * Records a payload that couldn't be delivered
+   * @param target - The target
+   * @param payload - The payload
+   * @param error - Why the last attempt failed
+   * @param attempts - Number of attempts made
+   * @returns Promise resolving once the payload is written to the dead-letter file
+   */
+  private async deadLetter(
+    target: WebhookTarget,
+    payload: WebhookPayload,
+    error: unknown,
+    attempts: number
+  ): Promise<void> {
+    const { deadLetterFile } = this.options;
+
+    if (deadLetterFile) {
+      const letter: WebhookDeadLetter = {
+        url: target.url,
+        payload,
+        error: (error as Error).message ?? String(error),
+        attempts,
+        failedAt: new Date().toISOString(),
+      };
+
+      await mkdir(dirname(deadLetterFile), { recursive: true });
+      await appendFile(deadLetterFile, `${JSON.stringify(letter)}\n`, { mode: 0o600 });
+    }
+
+    this.emit("failed", target, payload, error);
+  }
+}
@@ -1,2 +1,37 @@
-export { BuildingLink, BuildingLinkResponse } from "./BuildingLink";
+export {
+  BuildingLink,
+  BuildingLinkOptions,
+  BuildingLinkResponse,
+  PaginateOptions,
+  ODataQuery,
+  DeliveryOptions,
+  DateRange,
+  AnnouncementOptions,
+  PropertyOptions,
+  PropertyResult,
+  EventOptions,
+  RsvpOptions,
+  MaintenanceOptions,
+  MaintenancePhoto,
+  MaintenanceRequestInput,
+  AvailabilityOptions,
+  ReservationInput,
+  VisitorAuthorizationPeriod,
+  VisitorAuthorizationInput,
+  VisitorAuthorizationOptions,
+} from "./BuildingLink";
+export * from "./Store";
+export * from "./SessionStore";
+export * from "./DeliveryWatcher";
+export * from "./WebhookDispatcher";
+export * from "./MqttPublisher";
+export * from "./LibrarySync";
+export * from "./Transport";
+export * from "./Retry";
+export * from "./WebForms";
+export * from "./TimeZone";
+export * from "./Recurrence";
+export * from "./ICalendar";
+export * from "./HttpBridge";
+export * from "./Errors";
 export * from "./models";
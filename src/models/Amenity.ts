@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+/**
+ * BuildingLink amenity schema (e.g. gym, party room, freight elevator)
+ */
+export const BuildingLinkAmenitySchema = z.object({
+  /** Unique identifier for the amenity */
+  id: z.number().int(),
+  /** Property ID the amenity belongs to */
+  propertyId: z.number().int(),
+  /** Name of the amenity */
+  name: z.string(),
+  /** Description of the amenity */
+  description: z.string().nullable(),
+  /** Where the amenity is located */
+  location: z.string().nullable(),
+  /** Whether residents can book the amenity */
+  isReservable: z.boolean(),
+  /** Whether bookings have to be approved by staff */
+  requiresApproval: z.boolean(),
+  /** Shortest booking, in minutes */
+  minDurationMinutes: z.number().int(),
+  /** Longest booking, in minutes */
+  maxDurationMinutes: z.number().int().nullable(),
+  /** Largest party allowed, including the resident */
+  maxPartySize: z.number().int().nullable(),
+  /** Fee charged per booking */
+  fee: z.number().nullable(),
+  /** Rules residents agree to when booking */
+  rules: z.string().nullable(),
+});
+
+export type BuildingLinkAmenity = z.infer<typeof BuildingLinkAmenitySchema>;
+
+/**
+ * BuildingLink amenity availability slot schema
+ */
+export const BuildingLinkAmenitySlotSchema = z.object({
+  /** Amenity ID the slot belongs to */
+  amenityId: z.number().int(),
+  /** Start of the slot (UTC) */
+  startDateUTC: z.string(),
+  /** End of the slot (UTC) */
+  endDateUTC: z.string(),
+  /** Whether the slot can still be booked */
+  isAvailable: z.boolean(),
+  /** Number of people who can still join the slot, for shared amenities */
+  remainingCapacity: z.number().int().nullable(),
+});
+
+export type BuildingLinkAmenitySlot = z.infer<typeof BuildingLinkAmenitySlotSchema>;
+
+/**
+ * BuildingLink amenity reservation schema
+ */
+export const BuildingLinkReservationSchema = z.object({
+  /** Unique identifier for the reservation */
+  id: z.number().int(),
+  /** Amenity ID that is booked */
+  amenityId: z.number().int(),
+  /** Name of the amenity that is booked */
+  amenityName: z.string(),
+  /** Start of the booking (UTC) */
+  startDateUTC: z.string(),
+  /** End of the booking (UTC) */
+  endDateUTC: z.string(),
+  /** Status of the booking */
+  status: z.enum(["Pending", "Approved", "Denied", "Cancelled"]),
+  /** Number of people in the party, including the resident */
+  partySize: z.number().int(),
+  /** Note for the building staff */
+  notes: z.string().nullable(),
+  /** Date the booking was made (UTC) */
+  createDateUTC: z.string(),
+});
+
+export type BuildingLinkReservation = z.infer<typeof BuildingLinkReservationSchema>;
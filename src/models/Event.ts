@@ -15,26 +15,49 @@ export const BuildingLinkCalendarRecurrenceSchema = z.object({
   interval: z.number(),
   /** True if the event recurs every weekday */
   everyWeekday: z.boolean(),
-  /** Days of the week for recurrence (null if not applicable) */
-  weekDays: z.null(),
+  /** Days of the week for recurrence, as names or numbers (null if not applicable) */
+  weekDays: z.union([z.array(z.union([z.string(), z.number()])), z.string()]).nullable(),
   /** Specific day of the month for recurrence (null if not applicable) */
-  dayXOfTheMonth: z.null(),
-  /** Ordinal week of the month for recurrence (null if not applicable) */
-  xOfThe: z.null(),
+  dayXOfTheMonth: z.number().nullable(),
+  /** Ordinal week of the month for recurrence, e.g. "First" or "Last" (null if not applicable) */
+  xOfThe: z.union([z.string(), z.number()]).nullable(),
   /** Month for recurrence (null if not applicable) */
-  xOfTheMonth: z.null(),
+  xOfTheMonth: z.number().nullable(),
   /** Number of months between yearly recurrences */
   yearlyEveryXMonth: z.number(),
   /** True if the recurrence has no end date */
   noEnd: z.boolean(),
   /** End date for the recurrence (null if not applicable) */
-  endOn: z.null(),
+  endOn: z.string().nullable(),
   /** Number of occurrences before ending (null if not applicable) */
-  endAfterTimes: z.null(),
+  endAfterTimes: z.number().nullable(),
   /** Parent event ID for the recurrence */
   parentId: z.string(),
 });
 
+/**
+ * Schema for BuildingLink event RSVPs
+ * Represents an occupant's response to an event that accepts RSVPs.
+ */
+export const BuildingLinkRsvpSchema = z.object({
+  /** Unique identifier for the RSVP */
+  id: z.string(),
+  /** Event the RSVP responds to */
+  eventId: z.string(),
+  /** Occupant who responded */
+  occupantId: z.string(),
+  /** Whether the occupant is attending */
+  attending: z.boolean(),
+  /** Number of guests the occupant is bringing */
+  numberOfGuests: z.number(),
+  /** Note left for the building staff (null if none) */
+  note: z.string().nullable(),
+  /** Creation date/time in UTC (ISO string) */
+  createDateUTC: z.string(),
+  /** Last change date/time in UTC (ISO string, null if never changed) */
+  changeDateUTC: z.string().nullable(),
+});
+
 /**
  * Schema for BuildingLink events
  * Represents a calendar event in BuildingLink, including recurrence and RSVP info.
@@ -70,18 +93,28 @@ export const BuildingLinkEventSchema = z.object({
   isRsvpActive: z.boolean(),
   /** Whether the event spans multiple days */
   isMultiday: z.boolean(),
-  /** Recurrence ID for the event */
-  recurrenceId: z.string(),
+  /** Recurrence ID for the event (null if the event doesn't repeat) */
+  recurrenceId: z.string().nullable(),
   /** User who created the event (null if not tracked) */
   createdBy: z.null(),
   /** User who last updated the event (null if not tracked) */
   updatedBy: z.null(),
-  /** Array of RSVP responses (unknown structure) */
-  rsvps: z.array(z.unknown()),
-  /** Recurrence details for the event */
-  calendarRecurrences: BuildingLinkCalendarRecurrenceSchema,
+  /** RSVP responses of the current occupant */
+  rsvps: z.array(BuildingLinkRsvpSchema),
+  /** Recurrence details for the event (null if the event doesn't repeat) */
+  calendarRecurrences: BuildingLinkCalendarRecurrenceSchema.nullable(),
 });
 
+/**
+ * TypeScript type for a BuildingLink calendar recurrence, inferred from the schema.
+ */
+export type BuildingLinkCalendarRecurrence = z.infer<typeof BuildingLinkCalendarRecurrenceSchema>;
+
+/**
+ * TypeScript type for a BuildingLink event RSVP, inferred from the schema.
+ */
+export type BuildingLinkRsvp = z.infer<typeof BuildingLinkRsvpSchema>;
+
 /**
  * TypeScript type for a BuildingLink event, inferred from the schema.
  */
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { HTMLElement } from "node-html-parser";
+import { parseDoPostBack, PostbackOptions } from "../WebForms";
 
 /**
  * Represents a document from BuildingLink's document library.
@@ -32,10 +33,17 @@ export type BuildingLinkLibraryDocument = z.infer<
   typeof BuildingLinkLibraryDocumentSchema
 >;
 
-export type BuildingLinkLibrary = {
-  aptDocuments: BuildingLinkLibraryDocument[];
-  buildingDocuments: BuildingLinkLibraryDocument[];
-};
+/**
+ * Represents the BuildingLink document library.
+ */
+export const BuildingLinkLibrarySchema = z.object({
+  /** Documents specific to the occupant's unit */
+  aptDocuments: z.array(BuildingLinkLibraryDocumentSchema),
+  /** Documents shared with the whole building */
+  buildingDocuments: z.array(BuildingLinkLibraryDocumentSchema),
+});
+
+export type BuildingLinkLibrary = z.infer<typeof BuildingLinkLibrarySchema>;
 
 /**
  * Parses a date from a string
@@ -161,6 +169,87 @@ export function parseDocumentFromTable({
   return documents;
 }
 
+/**
+ * A postback that reveals more rows of a Telerik RadGrid
+ */
+export type GridAction = PostbackOptions & {
+  /** Identifies the action on the current page, to detect postbacks that don't progress */
+  key: string;
+};
+
+/**
+ * Gets the postback fields for clicking a submit or image button
+ * @param button - The button
+ * @returns The fields a browser would submit for the click
+ */
+const buttonFields = (button: HTMLElement): Record<string, string> => {
+  const name = button.getAttribute("name")!;
+
+  if (button.getAttribute("type")?.toLowerCase() === "image") {
+    return { [`${name}.x`]: "0", [`${name}.y`]: "0" };
+  }
+
+  return { [name]: button.getAttribute("value") ?? "" };
+};
+
+/**
+ * Finds the next postback needed to reveal more rows of a Telerik RadGrid
+ * Collapsed groups are expanded first, then the grid moves on to the next page
+ * @param table - The grid
+ * @returns The postback, or undefined if every row is already shown
+ */
+export function findGridAction(table?: HTMLElement): GridAction | undefined {
+  if (!table) {
+    return undefined;
+  }
+
+  const pager = table.querySelector(".rgPager");
+  const info = pager?.textContent?.match(/Page\s+(\d+)\s+of\s+(\d+)/i);
+  const currentPage =
+    pager?.querySelector(".rgCurrentPage")?.textContent?.trim() ||
+    info?.[1] ||
+    "1";
+
+  // Collapsed groups rendered on the server have to be expanded with a postback,
+  // client-side groups already contain their rows
+  const expand = table.querySelector(
+    "tr.rgGroupHeader input.rgExpand[name]:not([type=button])"
+  );
+  if (expand) {
+    return {
+      key: `${currentPage}:expand:${expand.getAttribute("name")}`,
+      fields: buttonFields(expand),
+    };
+  }
+
+  if (!pager) {
+    return undefined;
+  }
+
+  // Numeric pagers link the page after the current one
+  const nextLink = pager.querySelector(".rgCurrentPage")?.nextElementSibling;
+  const postback = parseDoPostBack(nextLink?.getAttribute("href"));
+  if (postback) {
+    return { key: `${currentPage}:page:${postback.eventTarget}`, ...postback };
+  }
+
+  // Otherwise use the next page button, unless the pager says this is the last page
+  const next = pager.querySelector("input.rgPageNext[name]");
+  const isLastPage = info ? Number(info[1]) >= Number(info[2]) : false;
+  const isDisabled =
+    next?.hasAttribute("disabled") ||
+    /return\s+false/.test(next?.getAttribute("onclick") || "");
+
+  if (next && !isLastPage && !isDisabled) {
+    return {
+      key: `${currentPage}:next:${next.getAttribute("name")}`,
+      fields: buttonFields(next),
+    };
+  }
+
+  return undefined;
+}
+
 /**
  * Parses the BuildingLink library from an HTML document.
  * @param document - The HTML document
@@ -179,3 +268,55 @@ export function parseLibrary(
     buildingDocuments: parseDocumentFromTable({ table: buildingTable, url }),
   };
 }
+
+/**
+ * A library document streamed from BuildingLink.
+ */
+export type BuildingLinkDocumentStream = {
+  /** Stream of the document contents */
+  stream: ReadableStream<Uint8Array>;
+  /** Filename provided by the server */
+  fileName?: string;
+  /** Content type provided by the server */
+  contentType?: string;
+  /** Size of the document in bytes, if provided by the server */
+  size?: number;
+};
+
+/**
+ * A library document downloaded from BuildingLink.
+ * A copy of the document with `fileBytes` and `fileName` filled in,
+ * along with the metadata provided by the server.
+ */
+export type BuildingLinkDocumentDownload = BuildingLinkLibraryDocument &
+  Omit<BuildingLinkDocumentStream, "stream"> & {
+    /** Contents of the document */
+    fileBytes: Uint8Array;
+  };
+
+/**
+ * Parses the filename from a Content-Disposition header
+ * Prefers the RFC 5987 `filename*` parameter, which supports non-ASCII names
+ * @param header - The Content-Disposition header
+ * @returns The filename, if any
+ */
+export function parseContentDisposition(
+  header: string | null | undefined
+): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim());
+    } catch {
+      // Fall back to the plain filename
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i);
+  const fileName = plain?.[1]?.replace(/\\(.)/g, "$1") ?? plain?.[2]?.trim();
+  return fileName || undefined;
+}
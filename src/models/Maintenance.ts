@@ -0,0 +1,130 @@
+import { z } from "zod";
+
+/**
+ * BuildingLink maintenance category schema
+ */
+export const BuildingLinkMaintenanceCategorySchema = z.object({
+  /** Unique identifier for the category */
+  Id: z.number().int(),
+  /** Name of the category (e.g. Plumbing) */
+  Description: z.string(),
+  /** Whether residents can file requests in this category */
+  IsActive: z.boolean(),
+  /** Display order */
+  Order: z.number().int(),
+});
+
+export type BuildingLinkMaintenanceCategory = z.infer<typeof BuildingLinkMaintenanceCategorySchema>;
+
+/**
+ * BuildingLink maintenance status schema
+ */
+export const BuildingLinkMaintenanceStatusSchema = z.object({
+  /** Unique identifier for the status */
+  Id: z.number().int(),
+  /** Name of the status (e.g. Open, In Progress, Completed) */
+  Description: z.string(),
+  /** Whether requests with this status are still open */
+  IsOpen: z.boolean(),
+});
+
+export type BuildingLinkMaintenanceStatus = z.infer<typeof BuildingLinkMaintenanceStatusSchema>;
+
+/**
+ * BuildingLink maintenance history entry schema, recorded whenever a request changes status
+ */
+export const BuildingLinkMaintenanceHistorySchema = z.object({
+  /** Unique identifier for the entry */
+  Id: z.number().int(),
+  /** Status ID the request moved to */
+  StatusId: z.number().int(),
+  /** Status details */
+  Status: BuildingLinkMaintenanceStatusSchema,
+  /** Note left by staff with the change */
+  Comment: z.string().nullable(),
+  /** Name of the person who made the change */
+  ChangedBy: z.string().nullable(),
+  /** Date of the change */
+  ChangeDate: z.string().datetime(),
+});
+
+export type BuildingLinkMaintenanceHistory = z.infer<typeof BuildingLinkMaintenanceHistorySchema>;
+
+/**
+ * BuildingLink maintenance comment schema
+ */
+export const BuildingLinkMaintenanceCommentSchema = z.object({
+  /** Unique identifier for the comment */
+  Id: z.number().int(),
+  /** Text of the comment */
+  Text: z.string(),
+  /** Name of the author */
+  AuthorName: z.string(),
+  /** Whether the comment was left by the resident rather than staff */
+  IsFromResident: z.boolean(),
+  /** Date the comment was left */
+  CreateDate: z.string().datetime(),
+});
+
+export type BuildingLinkMaintenanceComment = z.infer<typeof BuildingLinkMaintenanceCommentSchema>;
+
+/**
+ * BuildingLink maintenance attachment schema
+ */
+export const BuildingLinkMaintenanceAttachmentSchema = z.object({
+  /** Unique identifier for the attachment */
+  Id: z.number().int(),
+  /** Name of the file */
+  FileName: z.string(),
+  /** Content type of the file */
+  ContentType: z.string(),
+  /** URL where the file can be downloaded */
+  Url: z.string(),
+});
+
+export type BuildingLinkMaintenanceAttachment = z.infer<typeof BuildingLinkMaintenanceAttachmentSchema>;
+
+/**
+ * BuildingLink maintenance request schema
+ * History, comments and attachments are only included when fetching a single request
+ */
+export const BuildingLinkMaintenanceRequestSchema = z.object({
+  /** Unique identifier for the request */
+  Id: z.number().int(),
+  /** Work order number shown to residents and staff */
+  Number: z.string(),
+  /** Property ID the request belongs to */
+  PropertyId: z.number().int(),
+  /** Unit occupancy ID that filed the request */
+  UnitOccupancyId: z.number().int(),
+  /** Category ID of the request */
+  CategoryId: z.number().int(),
+  /** Category details */
+  Category: BuildingLinkMaintenanceCategorySchema,
+  /** Status ID of the request */
+  StatusId: z.number().int(),
+  /** Status details */
+  Status: BuildingLinkMaintenanceStatusSchema,
+  /** Description of the problem */
+  Description: z.string(),
+  /** Whether the request is open */
+  IsOpen: z.boolean(),
+  /** Whether staff may enter the unit when nobody is home */
+  PermissionToEnter: z.boolean(),
+  /** Instructions for entering the unit (e.g. pets, alarm) */
+  EntryInstructions: z.string().nullable(),
+  /** Date the request was filed */
+  OpenDate: z.string().datetime(),
+  /** Date the request was completed */
+  CloseDate: z.string().datetime().nullable(),
+  /** Date of last change */
+  LastChangeDate: z.string().datetime().nullable(),
+  /** Status changes, oldest first */
+  History: z.array(BuildingLinkMaintenanceHistorySchema).optional(),
+  /** Comments, oldest first */
+  Comments: z.array(BuildingLinkMaintenanceCommentSchema).optional(),
+  /** Photos and other files attached to the request */
+  Attachments: z.array(BuildingLinkMaintenanceAttachmentSchema).optional(),
+});
+
+export type BuildingLinkMaintenanceRequest = z.infer<typeof BuildingLinkMaintenanceRequestSchema>;
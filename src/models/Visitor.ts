@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+/**
+ * BuildingLink visitor entry type schema (e.g. guest, key release, unescorted entry)
+ */
+export const BuildingLinkVisitorEntryTypeSchema = z.object({
+  /** Unique identifier for the entry type */
+  id: z.number().int(),
+  /** Name of the entry type */
+  description: z.string(),
+});
+
+export type BuildingLinkVisitorEntryType = z.infer<typeof BuildingLinkVisitorEntryTypeSchema>;
+
+/**
+ * BuildingLink visitor authorization schema
+ */
+export const BuildingLinkVisitorAuthorizationSchema = z.object({
+  /** Unique identifier for the authorization */
+  id: z.number().int(),
+  /** Property ID the authorization belongs to */
+  propertyId: z.number().int(),
+  /** Unit occupancy ID that granted the authorization */
+  unitOccupancyId: z.number().int(),
+  /** Name of the visitor */
+  name: z.string(),
+  /** Note for the front desk */
+  notes: z.string().nullable(),
+  /** How long the authorization lasts */
+  type: z.enum(["OneTime", "DateRange", "Permanent"]),
+  /** First day the visitor is allowed in (`YYYY-MM-DD`), null for permanent authorizations */
+  startDate: z.string().nullable(),
+  /** Last day the visitor is allowed in (`YYYY-MM-DD`), null for permanent authorizations */
+  endDate: z.string().nullable(),
+  /** What the visitor is allowed to do */
+  entryTypes: z.array(BuildingLinkVisitorEntryTypeSchema),
+  /** Whether the authorization is still in effect */
+  isActive: z.boolean(),
+  /** Date the authorization was created (UTC) */
+  createDateUTC: z.string(),
+  /** Date the authorization was last changed (UTC) */
+  changeDateUTC: z.string().nullable(),
+});
+
+export type BuildingLinkVisitorAuthorization = z.infer<typeof BuildingLinkVisitorAuthorizationSchema>;
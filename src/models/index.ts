@@ -7,3 +7,6 @@ export * from "./User";
 export * from "./Announcement";
 export * from "./Delivery";
 export * from "./Token";
+export * from "./Maintenance";
+export * from "./Amenity";
+export * from "./Visitor";
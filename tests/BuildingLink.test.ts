@@ -1,27 +1,62 @@
-import { BuildingLink, BuildingLinkResponse } from "../src";
+import {
+  BuildingLink,
+  BuildingLinkResponse,
+  MemorySessionStore,
+  FileSessionStore,
+  ValidationError,
+  AuthenticationError,
+  RedirectLoopError,
+  ApiError,
+  ConfigurationError,
+  RequestValidationError,
+  RecordingTransport,
+  ReplayTransport,
+  getRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  parseContentDisposition,
+  findGridAction,
+} from "../src";
 import { parse } from "node-html-parser";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { config } from "dotenv";
 config({ path: ".env.test" });
 
-const { BUILDINGLINK_USERNAME, BUILDINGLINK_PASSWORD } = process.env;
+const { BUILDINGLINK_USERNAME, BUILDINGLINK_PASSWORD, RECORD } = process.env;
 
-describe("BuildingLink", () => {
-  if (!BUILDINGLINK_USERNAME || !BUILDINGLINK_PASSWORD) {
-    throw new Error("Missing environment variables: BUILDINGLINK_USERNAME or BUILDINGLINK_PASSWORD");
-  }
+// Replay the last recording, only record against the live site when asked with RECORD=1
+const isRecording = RECORD === "1";
+
+if (isRecording && !(BUILDINGLINK_USERNAME && BUILDINGLINK_PASSWORD)) {
+  throw new Error("RECORD=1 needs BUILDINGLINK_USERNAME and BUILDINGLINK_PASSWORD in .env.test");
+}
 
+describe("BuildingLink", () => {
   describe("Authentication", () => {
     let client: BuildingLink;
 
     describe("Real-world authentication", () => {
+      const fixture = join(__dirname, "fixtures", "authentication.json");
+      const transport = isRecording
+        ? new RecordingTransport(fixture, { secrets: [BUILDINGLINK_USERNAME!, BUILDINGLINK_PASSWORD!] })
+        : new ReplayTransport(fixture);
+
       beforeAll(() => {
         // Initialize client with test credentials
         client = new BuildingLink({
-          username: BUILDINGLINK_USERNAME!,
-          password: BUILDINGLINK_PASSWORD!,
+          username: isRecording ? BUILDINGLINK_USERNAME! : "testuser",
+          password: isRecording ? BUILDINGLINK_PASSWORD! : "testpass",
+          fetch: transport.fetch,
         });
       });
 
+      afterAll(async () => {
+        if (transport instanceof RecordingTransport) {
+          await transport.save();
+        }
+      });
+
       it("can authenticate", async () => {
         const response = await client.page("Home/Default.aspx");
         expect(client.isAuthenticated).toBe(true);
@@ -35,6 +70,11 @@ describe("BuildingLink", () => {
         expect(status).toBe(200);
         expect(url).toBe("https://www.buildinglink.com/V2/Tenant/Home/DefaultNew.aspx");
       });
+
+      it("calls the API with the captured token", async () => {
+        const announcements = await client.getAnnouncements();
+        expect(Array.isArray(announcements)).toBe(true);
+      });
     });
 
     describe("Mock authentication", () => {
@@ -64,6 +104,18 @@ describe("BuildingLink", () => {
 
         expect(result).toBe(mockResponse);
       });
+      it("rejects non-HTML responses while unauthenticated", async () => {
+        const testClient = new BuildingLink({
+          username: "testuser",
+          password: "testpass",
+        });
+
+        const mockResponse = { url: "https://api.buildinglink.com/announcements" } as BuildingLinkResponse;
+        const result = (testClient as any).handleAuthentication.call(testClient, mockResponse);
+
+        await expect(result).rejects.toThrow(AuthenticationError);
+        await expect(result).rejects.toThrow("expected the login form, got a non-HTML response");
+      });
       it("correctly initializes with custom options", () => {
         const options = {
           username: "testuser",
@@ -176,6 +228,31 @@ describe("BuildingLink", () => {
         await expect((testClient as any).handleAuthentication.call(testClient, mockResponse)).rejects.toThrow(
           "Failed to login: Invalid credentials"
         );
+        await expect((testClient as any).handleAuthentication.call(testClient, mockResponse)).rejects.toMatchObject({
+          constructor: AuthenticationError,
+          summary: "Invalid credentials",
+        });
+      });
+
+      it("throws RedirectLoopError on circular redirects", async () => {
+        const testClient = new BuildingLink({
+          username: "testuser",
+          password: "testpass",
+        });
+
+        const addHistory = (testClient as any).addHistory.bind(testClient);
+        await addHistory("https://www.buildinglink.com/a", {});
+        await addHistory("https://www.buildinglink.com/b", {});
+
+        const error = await Promise.resolve()
+          .then(() => addHistory("https://www.buildinglink.com/a", {}))
+          .catch((e) => e);
+        expect(error).toBeInstanceOf(RedirectLoopError);
+        expect(error.history).toEqual([
+          "[GET] https://www.buildinglink.com/a",
+          "[GET] https://www.buildinglink.com/b",
+          "[GET] https://www.buildinglink.com/a",
+        ]);
       });
     });
   });
@@ -222,6 +299,75 @@ describe("BuildingLink", () => {
     });
   });
 
+  describe("Session persistence", () => {
+    const session = {
+      cookies: { "bl.auth.cookie.oidc": "stored-cookie" },
+      token: { access_token: "stored-token" } as any,
+    };
+
+    it("restores the session before the first request", async () => {
+      const store = new MemorySessionStore(session);
+      const testClient = new BuildingLink({ username: "testuser", password: "testpass", session: store });
+
+      global.fetch = jest.fn().mockResolvedValue({} as BuildingLinkResponse);
+      testClient.hooks.responses = [];
+
+      await testClient.fetch("https://example.com/test");
+
+      expect(testClient.isAuthenticated).toBe(true);
+      expect(testClient.token?.access_token).toBe("stored-token");
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://example.com/test",
+        expect.objectContaining({
+          headers: expect.objectContaining({ cookie: "bl.auth.cookie.oidc=stored-cookie" }),
+        })
+      );
+    });
+
+    it("saves the session when cookies change", async () => {
+      const store = new MemorySessionStore();
+      const testClient = new BuildingLink({ username: "testuser", password: "testpass", session: store });
+
+      const response = {
+        headers: { getSetCookie: jest.fn().mockReturnValue(["cookie1=value1; path=/"]) },
+      } as unknown as BuildingLinkResponse;
+
+      await (testClient as any).updateCookies.call(testClient, response);
+
+      expect(await store.load()).toEqual({ cookies: { cookie1: "value1" }, token: undefined });
+    });
+
+    it("discards a rejected session and logs in again", async () => {
+      const store = new MemorySessionStore(session);
+      const testClient = new BuildingLink({ username: "testuser", password: "testpass", session: store });
+      testClient.importSession({ cookies: { ...session.cookies, antiforgery: "abc" }, token: session.token });
+
+      const mockResponse = {
+        document: parse(`<form action="/login"><input name="Username" /><input name="Password" /></form>`),
+        url: "https://www.buildinglink.com/login",
+      } as unknown as BuildingLinkResponse;
+
+      testClient.fetch = jest.fn().mockResolvedValue({ status: 200 } as BuildingLinkResponse);
+
+      await (testClient as any).handleAuthentication.call(testClient, mockResponse);
+
+      expect(testClient.fetch).toHaveBeenCalledWith("/login", expect.objectContaining({ method: "POST" }));
+      expect(testClient.cookies).toEqual({ antiforgery: "abc" });
+      expect(testClient.token).toBeUndefined();
+      expect(await store.load()).toBeUndefined();
+    });
+
+    it("persists the session to a JSON file", async () => {
+      const store = new FileSessionStore(join(mkdtempSync(join(tmpdir(), "buildinglink-")), "session.json"));
+
+      expect(await store.load()).toBeUndefined();
+      await store.save(session);
+      expect(await store.load()).toEqual(session);
+      await store.clear();
+      expect(await store.load()).toBeUndefined();
+    });
+  });
+
   describe("HTML handling", () => {
     it("parses HTML responses", async () => {
       const testClient = new BuildingLink({
@@ -379,6 +525,71 @@ describe("BuildingLink", () => {
       );
     });
 
+    it("uses the fetch option instead of the global fetch", async () => {
+      const fetch = jest.fn().mockResolvedValue({} as BuildingLinkResponse);
+      const testClient = new BuildingLink({
+        username: "testuser",
+        password: "testpassword",
+        fetch,
+      });
+
+      global.fetch = jest.fn();
+      testClient.hooks.responses = [];
+
+      await testClient.fetch("https://example.com/test");
+
+      expect(fetch).toHaveBeenCalledWith("https://example.com/test", expect.objectContaining({ redirect: "manual" }));
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("posts back WebForms pages with their hidden state", async () => {
+      const testClient = new BuildingLink({
+        username: "testuser",
+        password: "testpassword",
+      });
+
+      const nextPage = {} as BuildingLinkResponse;
+      testClient.fetch = jest.fn().mockResolvedValue(nextPage);
+
+      const response = {
+        document: parse(`
+          <form method="post" action="./Deliveries.aspx">
+            <input type="hidden" name="__VIEWSTATE" value="viewstate" />
+          </form>`),
+        url: "https://www.buildinglink.com/V2/Tenant/Deliveries/Deliveries.aspx",
+      } as unknown as BuildingLinkResponse;
+
+      const result = await testClient.postback(response, {
+        eventTarget: "ctl00$Grid",
+        fields: { "ctl00$Search": "box" },
+      });
+
+      expect(result).toBe(nextPage);
+      expect(testClient.fetch).toHaveBeenCalledWith(response.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: expect.any(URLSearchParams),
+      });
+
+      const body = (testClient.fetch as jest.Mock).mock.calls[0][1].body;
+      expect(Object.fromEntries(body)).toEqual({
+        __VIEWSTATE: "viewstate",
+        __EVENTTARGET: "ctl00$Grid",
+        __EVENTARGUMENT: "",
+        ctl00$Search: "box",
+      });
+    });
+
+    it("rejects postbacks of responses without a form", async () => {
+      const testClient = new BuildingLink({
+        username: "testuser",
+        password: "testpassword",
+      });
+
+      const response = { url: "https://api.buildinglink.com/test" } as BuildingLinkResponse;
+      await expect(testClient.postback(response)).rejects.toThrow("No form to post back");
+    });
+
     it("correctly builds tenant path URLs", async () => {
       const testClient = new BuildingLink({
         username: "testuser",
@@ -393,6 +604,402 @@ describe("BuildingLink", () => {
     });
   });
 
+  describe("Properties", () => {
+    const buildings = [
+      { id: "8c6c5d3e-0000-4000-8000-000000000001", legacyId: 1, name: "North Tower" },
+      { id: "8c6c5d3e-0000-4000-8000-000000000002", legacyId: 2, name: "South Tower" },
+    ];
+    let client: BuildingLink;
+
+    beforeEach(() => {
+      client = new BuildingLink({ username: "testuser", password: "testpass" });
+      client.token = { access_token: "mock-token" } as any;
+      client.getBuildings = jest.fn().mockResolvedValue(buildings);
+      client.fetch = jest.fn().mockResolvedValue({ status: 200 });
+    });
+
+    it("scopes API calls to the active property, unless overridden per call", async () => {
+      await client.useProperty("8c6c5d3e-0000-4000-8000-000000000002");
+      await client.api("Test/v1/Items");
+      await client.api("Test/v1/Items", { propertyId: 1 });
+
+      const headers = (client.fetch as jest.Mock).mock.calls.map(([, init]) => init.headers);
+      expect(client.propertyId).toBe(2);
+      expect(headers[0]).toMatchObject({ "x-buildinglink-property-id": "2" });
+      expect(headers[1]).toMatchObject({ "x-buildinglink-property-id": "1" });
+    });
+
+    it("leaves API calls unscoped without a property", async () => {
+      await client.api("Test/v1/Items");
+
+      const [[, init]] = (client.fetch as jest.Mock).mock.calls;
+      expect(init.headers).not.toHaveProperty("x-buildinglink-property-id");
+      expect(init).not.toHaveProperty("propertyId");
+    });
+
+    it("rejects properties that aren't authorized", async () => {
+      const error = await client.useProperty(3).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect(error.message).toBe("Property 3 is not authorized for this account");
+      expect(client.propertyId).toBeUndefined();
+    });
+
+    it("switches the tenant session before fetching pages of another property", async () => {
+      await client.useProperty(2);
+      await client.page("Home/DefaultNew.aspx");
+      await client.page("Library/Library.aspx");
+      await client.page("Library/Library.aspx", { propertyId: 1 });
+
+      expect((client.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=2",
+        "V2/Tenant/Home/DefaultNew.aspx",
+        "V2/Tenant/Library/Library.aspx",
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=1",
+        "V2/Tenant/Library/Library.aspx",
+      ]);
+    });
+
+    it("doesn't guess the default property after a per-call property", async () => {
+      await client.page("Library/Library.aspx", { propertyId: 2 });
+      const error = await client.page("Library/Library.aspx").catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect(error.message).toBe(
+        "The tenant session was switched to property 2 by an earlier call, pass a propertyId or call useProperty()"
+      );
+      expect((client.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=2",
+        "V2/Tenant/Library/Library.aspx",
+      ]);
+    });
+
+    it("doesn't interleave pages of different properties", async () => {
+      client.fetch = jest.fn().mockImplementation(() => new Promise((resolve) => setTimeout(resolve, 5, {})));
+
+      await Promise.all([
+        client.page("Library/Library.aspx", { propertyId: 1 }),
+        client.page("Library/Library.aspx", { propertyId: 2 }),
+        client.page("Home/DefaultNew.aspx", { propertyId: 1 }),
+      ]);
+
+      expect((client.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=1",
+        "V2/Tenant/Library/Library.aspx",
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=2",
+        "V2/Tenant/Library/Library.aspx",
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=1",
+        "V2/Tenant/Home/DefaultNew.aspx",
+      ]);
+    });
+
+    it("rejects unknown properties instead of using another building", async () => {
+      client.api = jest.fn();
+
+      await expect(client.getEvents("2024-07-01", "2024-07-31", { propertyId: 3 })).rejects.toThrow(
+        new ConfigurationError("Property 3 is not authorized for this account")
+      );
+      expect(client.api).not.toHaveBeenCalled();
+    });
+
+    it("switches the tenant session again after logging in again", async () => {
+      client.login = jest.fn().mockResolvedValue(undefined);
+      await client.useProperty(2);
+      await client.page("Library/Library.aspx");
+      await client.reauthenticate();
+      await client.page("Library/Library.aspx");
+
+      expect((client.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=2",
+        "V2/Tenant/Library/Library.aspx",
+        "V2/Tenant/Home/SwitchProperty.aspx?propertyId=2",
+        "V2/Tenant/Library/Library.aspx",
+      ]);
+    });
+
+    it("runs a query for every property and tags the results", async () => {
+      const results = await client.forEachProperty(async (propertyId) => {
+        if (propertyId === 2) throw new Error("Unavailable");
+        return [`delivery-${propertyId}`];
+      });
+
+      expect(results).toEqual([
+        { building: buildings[0], result: ["delivery-1"] },
+        { building: buildings[1], error: new Error("Unavailable") },
+      ]);
+    });
+  });
+
+  describe("Retries", () => {
+    const createClient = (fetch: jest.Mock, retry: any = { baseDelay: 0 }) => {
+      const testClient = new BuildingLink({ username: "testuser", password: "testpassword", fetch, retry });
+      testClient.hooks.responses = [];
+      return testClient;
+    };
+
+    it("retries transient failures of idempotent requests", async () => {
+      const fetch = jest
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+      const testClient = createClient(fetch);
+      const onRetry = jest.fn().mockResolvedValue(undefined);
+      testClient.hooks.retries.push(onRetry);
+
+      const response = await testClient.fetch("https://example.com/test");
+
+      expect(response.status).toBe(200);
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({ url: "https://example.com/test", method: "GET", attempt: 1 });
+      expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 2, error: expect.any(TypeError) });
+    });
+
+    it("gives up after the maximum number of attempts", async () => {
+      const fetch = jest.fn().mockImplementation(async () => new Response(null, { status: 429 }));
+      const testClient = createClient(fetch, { baseDelay: 0, maxAttempts: 2 });
+
+      const response = await testClient.fetch("https://example.com/test");
+
+      expect(response.status).toBe(429);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops waiting to retry once the request is aborted", async () => {
+      const fetch = jest.fn().mockImplementation(async () => new Response(null, { status: 503 }));
+      const testClient = createClient(fetch, { baseDelay: 60 * 1000 });
+      const controller = new AbortController();
+
+      const request = testClient.fetch("https://example.com/test", { signal: controller.signal });
+      setTimeout(() => controller.abort(new Error("Cancelled")), 10);
+
+      await expect(request).rejects.toThrow("Cancelled");
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't retry non-idempotent requests", async () => {
+      const fetch = jest.fn().mockImplementation(async () => new Response(null, { status: 503 }));
+      const testClient = createClient(fetch);
+
+      await testClient.fetch("https://example.com/test", { method: "POST" });
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't retry when retries are disabled", async () => {
+      const fetch = jest.fn().mockImplementation(async () => new Response(null, { status: 503 }));
+      const testClient = createClient(fetch, false);
+
+      await testClient.fetch("https://example.com/test");
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("honours Retry-After", () => {
+      const seconds = new Response(null, { status: 429, headers: { "retry-after": "2" } });
+      const retryAfter = new Date(Date.now() + 60 * 60 * 1000).toUTCString();
+      const date = new Response(null, { status: 503, headers: { "retry-after": retryAfter } });
+
+      expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, seconds)).toBe(2000);
+      expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, date)).toBe(DEFAULT_RETRY_POLICY.maxDelay);
+    });
+
+    it("backs off exponentially with jitter", () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100 };
+
+      for (let i = 0; i < 20; i++) {
+        expect(getRetryDelay(policy, 3)).toBeGreaterThanOrEqual(0);
+        expect(getRetryDelay(policy, 3)).toBeLessThanOrEqual(400);
+      }
+    });
+  });
+
+  describe("Library grids", () => {
+    const row = (id: number, title: string) => `
+      <tr class="rgRow">
+        <td><a onclick="window.open('viewlibdoc.aspx?id=${id}')">${title}</a></td>
+        <td></td><td>01/01/2024</td><td></td>
+      </tr>`;
+
+    const libraryPage = (rows: string, footer = "") => `
+      <form method="post" action="./Library.aspx" id="aspnetForm">
+        <input type="hidden" name="__VIEWSTATE" value="state" />
+        <input type="hidden" name="__EVENTVALIDATION" value="validation" />
+        <table id="LibraryGridView">
+          <tr class="rgGroupHeader"><td></td><td>Notices (3 items)</td></tr>
+          ${rows}
+          ${footer}
+        </table>
+      </form>`;
+
+    const pageLink = (page: number) =>
+      `<a href="javascript:__doPostBack('ctl00$LibraryGridView$ctl00$ctl03$ctl01$ctl0${page}','')">${page}</a>`;
+
+    const pager = (current: number) => `
+      <tr class="rgPager"><td>
+        ${[1, 2]
+          .map((page) => (page === current ? `<a class="rgCurrentPage" href="#">${page}</a>` : pageLink(page)))
+          .join("")}
+      </td></tr>`;
+
+    const response = (html: string) =>
+      ({
+        html,
+        document: parse(html),
+        url: "https://www.buildinglink.com/V2/Tenant/Library/Library.aspx",
+      }) as unknown as BuildingLinkResponse;
+
+    let client: BuildingLink;
+
+    beforeEach(() => {
+      client = new BuildingLink({ username: "testuser", password: "testpass" });
+    });
+
+    it("follows the pager to collect every page", async () => {
+      client.fetch = jest
+        .fn()
+        .mockResolvedValueOnce(response(libraryPage(row(1, "First") + row(2, "Second"), pager(1))))
+        .mockResolvedValue(response(libraryPage(row(3, "Third"), pager(2))));
+
+      const { buildingDocuments } = await client.getLibrary();
+
+      expect(buildingDocuments.map((doc) => doc.title)).toEqual(["First", "Second", "Third"]);
+      expect(buildingDocuments[2].categories).toEqual(["Notices"]);
+      expect(client.fetch).toHaveBeenCalledTimes(2);
+      expect(client.fetch).toHaveBeenNthCalledWith(1, "V2/Tenant/Library/Library.aspx");
+
+      const [action, { method, body }] = (client.fetch as jest.Mock).mock.calls[1];
+      expect(action).toBe("https://www.buildinglink.com/V2/Tenant/Library/Library.aspx");
+      expect(method).toBe("POST");
+      expect(Object.fromEntries(body)).toEqual({
+        __VIEWSTATE: "state",
+        __EVENTVALIDATION: "validation",
+        __EVENTTARGET: "ctl00$LibraryGridView$ctl00$ctl03$ctl01$ctl02",
+        __EVENTARGUMENT: "",
+      });
+    });
+
+    it("expands collapsed groups", async () => {
+      const button = "ctl00$LibraryGridView$ctl00$ctl07$GECBtnExpandColumn";
+      const groupHeader = (className: string) => `
+        <tr class="rgGroupHeader">
+          <td><input type="submit" name="${button}" value=" " class="${className}" /></td>
+          <td>Rules (1 items)</td>
+        </tr>`;
+      const collapsed = groupHeader("rgExpand");
+      const expanded = groupHeader("rgCollapse") + row(4, "Pool Rules");
+
+      client.fetch = jest
+        .fn()
+        .mockResolvedValueOnce(response(libraryPage(row(1, "First"), collapsed)))
+        .mockResolvedValue(response(libraryPage(row(1, "First"), expanded)));
+
+      const { buildingDocuments } = await client.getLibrary();
+
+      expect(buildingDocuments.map((doc) => [doc.title, doc.categories])).toEqual([
+        ["First", ["Notices"]],
+        ["Pool Rules", ["Rules"]],
+      ]);
+      expect((client.fetch as jest.Mock).mock.calls[1][1].body.get(button)).toBe(" ");
+    });
+
+    it("stops when a postback doesn't change the grid", async () => {
+      const page = response(libraryPage(row(1, "First"), pager(1)));
+      client.fetch = jest.fn().mockResolvedValue(page);
+
+      const { buildingDocuments } = await client.getLibrary();
+
+      expect(buildingDocuments).toHaveLength(1);
+      expect(client.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("uses the next page button when there are no page numbers", () => {
+      const table = (info: string) =>
+        parse(`
+          <table id="LibraryGridView"><tr class="rgPager"><td>
+            <input type="submit" name="ctl00$LibraryGridView$ctl00$ctl03$ctl01$ctl28" value=" " class="rgPageNext" />
+            <div class="rgInfoPart">${info}</div>
+          </td></tr></table>`).querySelector("table")!;
+
+      expect(findGridAction(table("Page 1 of 2"))).toEqual({
+        key: "1:next:ctl00$LibraryGridView$ctl00$ctl03$ctl01$ctl28",
+        fields: { ctl00$LibraryGridView$ctl00$ctl03$ctl01$ctl28: " " },
+      });
+      expect(findGridAction(table("Page 2 of 2"))).toBeUndefined();
+    });
+  });
+
+  describe("Library documents", () => {
+    const doc = {
+      title: "Bylaws",
+      categories: ["Governance"],
+      postedOn: new Date("2024-01-01"),
+      viewUrl: "https://www.buildinglink.com/V2/Tenant/Library/viewlibdoc.aspx?id=1",
+      downloadUrl: "https://www.buildinglink.com/V2/Tenant/Library/getFile.aspx?id=1",
+      fileId: 1,
+    };
+
+    const createClient = (response: Response) => {
+      const fetch = jest.fn().mockResolvedValue(response);
+      const testClient = new BuildingLink({ username: "testuser", password: "testpass", fetch });
+      testClient.cookies = { "bl.auth.cookie.oidc": "test-token" };
+      return testClient;
+    };
+
+    it("downloads a document with the session cookies", async () => {
+      const testClient = createClient(
+        new Response(new Uint8Array([37, 80, 68, 70]), {
+          headers: {
+            "content-type": "application/pdf",
+            "content-disposition": 'attachment; filename="Bylaws 2024.pdf"',
+            "content-length": "4",
+          },
+        })
+      );
+
+      const download = await testClient.downloadDocument(doc);
+
+      expect(download).toEqual({
+        ...doc,
+        fileBytes: new Uint8Array([37, 80, 68, 70]),
+        fileName: "Bylaws 2024.pdf",
+        contentType: "application/pdf",
+        size: 4,
+      });
+      expect(doc).not.toHaveProperty("fileBytes");
+      expect(testClient.options.fetch).toHaveBeenCalledWith(
+        doc.downloadUrl,
+        expect.objectContaining({ headers: expect.objectContaining({ cookie: "bl.auth.cookie.oidc=test-token" }) })
+      );
+    });
+
+    it("streams a document", async () => {
+      const testClient = createClient(new Response("%PDF", { headers: { "content-type": "application/pdf" } }));
+
+      const { stream, contentType } = await testClient.streamDocument(doc);
+
+      expect(contentType).toBe("application/pdf");
+      expect(await new Response(stream).text()).toBe("%PDF");
+    });
+
+    it("throws ApiError when the server returns a page instead of the file", async () => {
+      const testClient = createClient(
+        new Response("<html>Document not found</html>", { headers: { "content-type": "text/html" } })
+      );
+
+      await expect(testClient.downloadDocument(doc)).rejects.toBeInstanceOf(ApiError);
+    });
+
+    it("parses filenames from Content-Disposition", () => {
+      expect(parseContentDisposition('attachment; filename="notice.pdf"')).toBe("notice.pdf");
+      expect(parseContentDisposition("inline; filename=notice.pdf")).toBe("notice.pdf");
+      expect(parseContentDisposition("attachment; filename=\"a.pdf\"; filename*=UTF-8''caf%C3%A9.pdf")).toBe("café.pdf");
+      expect(parseContentDisposition("attachment")).toBeUndefined();
+      expect(parseContentDisposition(null)).toBeUndefined();
+    });
+  });
+
   describe("Additional BuildingLink methods", () => {
     let client: BuildingLink;
 
@@ -421,9 +1028,53 @@ describe("BuildingLink", () => {
       expect(result).toBe(mockResponse);
     });
 
+    it("api() re-authenticates once and replays the request on a 401", async () => {
+      const okResponse = { status: 200 } as any;
+      client.fetch = jest.fn().mockResolvedValueOnce({ status: 401 }).mockResolvedValueOnce(okResponse);
+      client.reauthenticate = jest.fn().mockImplementation(async () => {
+        client.token = { access_token: "fresh-token" } as any;
+        return client.token;
+      });
+
+      const result = await client.api("/test/api");
+      expect(client.reauthenticate).toHaveBeenCalledTimes(1);
+      expect(client.fetch).toHaveBeenCalledTimes(2);
+      expect((client.fetch as jest.Mock).mock.calls[1][1].headers.Authorization).toBe("Bearer fresh-token");
+      expect(result).toBe(okResponse);
+    });
+
+    it("api() re-authenticates before the token expires", async () => {
+      client.tokenExpiresAt = Date.now() + 30 * 1000;
+      client.fetch = jest.fn().mockResolvedValue({ status: 200 });
+      client.reauthenticate = jest.fn().mockImplementation(async () => {
+        client.tokenExpiresAt = Date.now() + 3600 * 1000;
+        return client.token;
+      });
+
+      expect(client.isTokenExpiring).toBe(true);
+      await client.api("/test/api");
+      expect(client.reauthenticate).toHaveBeenCalledTimes(1);
+      expect(client.isTokenExpiring).toBe(false);
+    });
+
+    it("tracks when the OIDC token expires", async () => {
+      const mockResponse = {
+        document: parse(`<form action="/oidc/token"><input name="expires_in" value="3600" /></form>`),
+        url: "https://www.buildinglink.com/login",
+      } as unknown as BuildingLinkResponse;
+
+      client.fetch = jest.fn().mockResolvedValue({ status: 200 } as BuildingLinkResponse);
+
+      const before = Date.now();
+      await (client as any).handleAuthentication.call(client, mockResponse);
+
+      expect(client.tokenExpiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+      expect(client.tokenExpiresAt).toBeLessThanOrEqual(Date.now() + 3600 * 1000);
+    });
+
     it("getLibrary() parses library from page", async () => {
       const mockDocument = { querySelector: jest.fn().mockReturnValue(undefined) } as any;
-      client.page = jest.fn().mockResolvedValue({ document: mockDocument, url: "https://test" });
+      client.fetch = jest.fn().mockResolvedValue({ document: mockDocument, url: "https://test" });
 
       // Only use jest.spyOn, do not assign parseLibrary directly
       const libraryModule = require("../src/models/Library");
@@ -432,7 +1083,7 @@ describe("BuildingLink", () => {
         .mockReturnValue({ aptDocuments: [], buildingDocuments: [] });
 
       const result = await client.getLibrary();
-      expect(client.page).toHaveBeenCalledWith("Library/Library.aspx");
+      expect(client.fetch).toHaveBeenCalledWith("V2/Tenant/Library/Library.aspx");
       expect(parseLibrarySpy).toHaveBeenCalled();
       expect(result).toEqual({ aptDocuments: [], buildingDocuments: [] });
     });
@@ -442,12 +1093,13 @@ describe("BuildingLink", () => {
       client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(mockOccupant) });
 
       const result = await client.getOccupant();
-      expect(client.api).toHaveBeenCalledWith("Properties/AuthenticatedUser/v1/property/occupant/get");
+      expect(client.api).toHaveBeenCalledWith("Properties/AuthenticatedUser/v1/property/occupant/get", {});
       expect(result).toEqual(mockOccupant);
     });
 
     it("getUser() returns user from API", async () => {
       const mockUser = { id: "user-1" };
+      client.options.apiKey = "mock-api-key";
       client.fetch = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(mockUser) });
 
       const result = await client.getUser();
@@ -463,19 +1115,158 @@ describe("BuildingLink", () => {
       expect(result).toEqual(mockUser);
     });
 
+    it("getUser() throws ConfigurationError without an API key", async () => {
+      await expect(client.getUser()).rejects.toBeInstanceOf(ConfigurationError);
+    });
+
+    it("api() throws ApiError for error responses", async () => {
+      client.fetch = jest.fn().mockResolvedValue({
+        status: 500,
+        url: "https://api.buildinglink.com/test/api",
+        text: jest.fn().mockResolvedValue("Internal Server Error"),
+      });
+
+      const error = await client.api("/test/api").catch((e) => e);
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({
+        status: 500,
+        url: "https://api.buildinglink.com/test/api",
+        body: "Internal Server Error",
+      });
+    });
+
     it("getEvents() returns events from API", async () => {
       const mockEvents = [{ id: "event-1" }];
       client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(mockEvents) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 1, timeZoneCode: "UTC" }]);
 
       const from = new Date("2024-01-01");
       const to = new Date("2024-01-02");
       const result = await client.getEvents(from, to);
       expect(client.api).toHaveBeenCalledWith(
-        expect.stringContaining("Calendar/Resident/v2/resident/events/filteredeventsrsvp?")
+        expect.stringContaining("Calendar/Resident/v2/resident/events/filteredeventsrsvp?"),
+        { propertyId: undefined }
       );
       expect(result).toEqual(mockEvents);
     });
 
+    it("getEvents() covers whole days in the building's time zone without changing the inputs", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue([]) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 1, timeZoneCode: "America/New_York" }]);
+
+      const to = new Date("2024-07-02T12:00:00Z");
+      await client.getEvents("2024-07-01", to);
+      await client.getEvents("2024-07-01", to);
+
+      const url = new URL((client.api as jest.Mock).mock.calls[0][0], "https://api.buildinglink.com");
+      expect(url.searchParams.get("fromDateTime")).toBe("2024-07-01T04:00:00.000Z");
+      expect(url.searchParams.get("toDateTime")).toBe("2024-07-03T03:59:59.999Z");
+      expect(to.toISOString()).toBe("2024-07-02T12:00:00.000Z");
+      expect(client.getBuildings).toHaveBeenCalledTimes(1);
+    });
+
+    it("getEvents() rejects time zones the runtime doesn't support", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue([]) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 1, timeZoneCode: "Eastern Standard Time" }]);
+
+      await expect(client.getEvents("2024-07-01", "2024-07-02")).rejects.toThrow(ConfigurationError);
+      await expect(client.getEvents("2024-07-01", "2024-07-02", { timeZone: "Mars/Olympus" })).rejects.toThrow(
+        "Time zone Mars/Olympus is not supported"
+      );
+      expect(client.api).not.toHaveBeenCalled();
+    });
+
+    it("getEvents() returns timestamps as dates when asked", async () => {
+      const event = { id: "event-1", startDateUTC: "2024-07-01T22:00:00", changeDateUTC: "2024-06-01T00:00:00Z" };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue([event]) });
+
+      const [result] = await client.getEvents("2024-07-01", "2024-07-31", { dates: true, timeZone: "UTC" });
+      expect(result.startDateUTC).toEqual(new Date("2024-07-01T22:00:00Z"));
+      expect(result.changeDateUTC).toEqual(new Date("2024-06-01T00:00:00Z"));
+      expect(result.id).toBe("event-1");
+    });
+
+    it("getEvents() expands recurring events in the building's time zone", async () => {
+      const event = {
+        id: "event-1",
+        startDateUTC: "2024-01-08T23:00:00",
+        endDateUTC: "2024-01-09T00:00:00",
+        propertyId: 2,
+        calendarRecurrences: { frequency: "Weekly", interval: 1, weekDays: ["Monday"], noEnd: true },
+      };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue([event]) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 2, timeZoneCode: "America/New_York" }]);
+
+      const result = await client.getEvents(new Date("2024-01-01T00:00:00Z"), new Date("2024-01-20T00:00:00Z"), {
+        expand: true,
+      });
+      expect(result.map(({ occurrenceId }) => occurrenceId)).toEqual([
+        "event-1:2024-01-08T23:00:00.000Z",
+        "event-1:2024-01-15T23:00:00.000Z",
+      ]);
+    });
+
+    it("rsvp() posts the response and returns the RSVP", async () => {
+      const rsvp = { id: "rsvp-1", eventId: "event-1", attending: true, numberOfGuests: 2, note: "Vegetarian" };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(rsvp) });
+
+      const result = await client.rsvp("event-1", { guests: 2, note: "Vegetarian" });
+      expect(client.api).toHaveBeenCalledWith("Calendar/Resident/v2/resident/events/event-1/rsvp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ attending: true, numberOfGuests: 2, note: "Vegetarian" }),
+      });
+      expect(result).toEqual(rsvp);
+    });
+
+    it("cancelRsvp() deletes the response", async () => {
+      client.api = jest.fn().mockResolvedValue({ status: 204 });
+
+      await client.cancelRsvp("event-1");
+      expect(client.api).toHaveBeenCalledWith("Calendar/Resident/v2/resident/events/event-1/rsvp", {
+        method: "DELETE",
+      });
+    });
+
+    it("getRsvpEvents() returns the events the occupant responded to", async () => {
+      const events = [
+        { id: "event-1", rsvps: [{ occupantId: "occupant-1" }, { occupantId: "occupant-2" }] },
+        { id: "event-2", rsvps: [{ occupantId: "occupant-2" }] },
+        { id: "event-3", rsvps: [] },
+      ];
+      client.getEvents = jest.fn().mockResolvedValue(events);
+      client.getOccupant = jest.fn().mockResolvedValue({ id: "occupant-1" });
+
+      const result = await client.getRsvpEvents(new Date("2024-01-01"), new Date("2024-01-31"));
+      expect(result).toEqual([{ id: "event-1", rsvps: [{ occupantId: "occupant-1" }] }]);
+    });
+
+    it("getEventsCalendar() exports events in the building's time zone", async () => {
+      const event = {
+        id: "event-1",
+        title: "Town hall",
+        description: "",
+        startDateUTC: "2024-01-10T23:00:00",
+        endDateUTC: "2024-01-11T00:00:00",
+        propertyId: 2,
+        isActive: true,
+        isAllDay: false,
+        changeDateUTC: "2024-01-01T00:00:00",
+        createDateUTC: "2024-01-01T00:00:00",
+        calendarRecurrences: null,
+      };
+      const buildings = [
+        { legacyId: 1, name: "North Tower", timeZoneCode: "America/Los_Angeles" },
+        { legacyId: 2, name: "South Tower", timeZoneCode: "America/New_York" },
+      ];
+      client.getEvents = jest.fn().mockResolvedValue([event]);
+      client.getBuildings = jest.fn().mockResolvedValue(buildings);
+
+      const calendar = await client.getEventsCalendar(new Date("2024-01-01"), new Date("2024-01-31"));
+      expect(calendar).toContain("X-WR-CALNAME:South Tower Events\r\n");
+      expect(calendar).toContain("DTSTART;TZID=America/New_York:20240110T180000\r\n");
+    });
+
     it("getDeliveries() paginates and returns all deliveries", async () => {
       const page1 = { value: [{ Id: 1 }], "@odata.nextLink": "/next" };
       const page2 = { value: [{ Id: 2 }] };
@@ -489,6 +1280,346 @@ describe("BuildingLink", () => {
       expect(result).toEqual([{ Id: 1 }, { Id: 2 }]);
     });
 
+    it("getDeliveries() requests the open deliveries by default", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ value: [] }) });
+
+      await client.getDeliveries();
+      expect(client.api).toHaveBeenCalledWith(
+        "/EventLog/Resident/v1/Events?$expand=Location,Type,Authorizations&$filter=IsOpen eq true and Type/IsShownOnTenantHomePage eq true&$skip=0",
+        expect.any(Object)
+      );
+    });
+
+    it("getDeliveries() filters and orders delivery history", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ value: [] }) });
+
+      await client.getDeliveries({
+        status: "closed",
+        includeHiddenTypes: true,
+        closeDate: { from: new Date("2024-01-01T00:00:00Z"), to: new Date("2024-01-31T23:59:59Z") },
+        typeIds: [1, 2],
+        locationIds: [7],
+        orderBy: "CloseDate desc",
+      });
+
+      const [url] = (client.api as jest.Mock).mock.calls[0];
+      const filter = new URL(url, "https://api.buildinglink.com").searchParams.get("$filter");
+      expect(filter).toBe(
+        "IsOpen eq false and CloseDate ge 2024-01-01T00:00:00.000Z and CloseDate le 2024-01-31T23:59:59.000Z" +
+          " and (TypeId eq 1 or TypeId eq 2) and (LocationId eq 7)"
+      );
+      expect(url).toContain("$orderby=CloseDate desc");
+    });
+
+    it("getDeliveries() omits the filter for all deliveries", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ value: [] }) });
+
+      await client.getDeliveries({ status: "all", includeHiddenTypes: true });
+      expect((client.api as jest.Mock).mock.calls[0][0]).not.toContain("$filter");
+    });
+
+    it("getDeliveries() returns Date timestamps when asked", async () => {
+      const page = { value: [{ Id: 1, OpenDate: "2024-07-01T12:00:00", CloseDate: null }] };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(page) });
+
+      const [delivery] = await client.getDeliveries({ status: "all", dates: true });
+      expect(delivery.OpenDate).toEqual(new Date("2024-07-01T12:00:00Z"));
+      expect(delivery.CloseDate).toBeNull();
+
+      for await (const item of client.iterateDeliveries({ dates: true })) {
+        expect(item.OpenDate).toBeInstanceOf(Date);
+      }
+    });
+
+    it("getAnnouncements() returns Date timestamps when asked", async () => {
+      const announcements = [{ id: "1", startDate: "2024-07-01T00:00:00Z", createdDateTime: "2024-06-30T09:30:00Z" }];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(announcements) });
+
+      const [announcement] = await client.getAnnouncements({ propertyId: 2, dates: true });
+      expect(announcement.startDate).toEqual(new Date("2024-07-01T00:00:00Z"));
+      expect(announcement.createdDateTime).toEqual(new Date("2024-06-30T09:30:00Z"));
+      expect(client.api).toHaveBeenCalledWith("ContentCreator/Resident/v1/announcements/active", { propertyId: 2 });
+    });
+
+    it("getMaintenanceRequests() requests the open requests by default", async () => {
+      const page = { value: [{ Id: 1, Description: "Leaking faucet" }] };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(page) });
+
+      const result = await client.getMaintenanceRequests();
+      expect(client.api).toHaveBeenCalledWith(
+        "Maintenance/Resident/v1/Requests?$expand=Category,Status&$filter=IsOpen eq true&$skip=0",
+        expect.any(Object)
+      );
+      expect(result).toEqual([{ Id: 1, Description: "Leaking faucet" }]);
+    });
+
+    it("getMaintenanceRequests() filters closed requests by category", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ value: [] }) });
+
+      await client.getMaintenanceRequests({ status: "closed", categoryIds: [3, 4], orderBy: "CloseDate desc" });
+
+      const [url] = (client.api as jest.Mock).mock.calls[0];
+      const query = new URL(url, "https://api.buildinglink.com").searchParams;
+      expect(query.get("$filter")).toBe("IsOpen eq false and (CategoryId eq 3 or CategoryId eq 4)");
+      expect(query.get("$orderby")).toBe("CloseDate desc");
+    });
+
+    it("getMaintenanceRequest() expands the history, comments and attachments", async () => {
+      const request = { Id: 7, History: [{ Id: 1, Status: { Description: "Completed" } }], Comments: [] };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(request) });
+
+      const result = await client.getMaintenanceRequest(7, { propertyId: 2 });
+      expect(client.api).toHaveBeenCalledWith(
+        "Maintenance/Resident/v1/Requests(7)?$expand=Category,Status,History($expand=Status),Comments,Attachments",
+        { propertyId: 2 }
+      );
+      expect(result).toEqual(request);
+    });
+
+    it("createMaintenanceRequest() uploads the request with its photos", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ Id: 8 }) });
+
+      const result = await client.createMaintenanceRequest({
+        categoryId: 3,
+        description: "Leaking faucet",
+        permissionToEnter: true,
+        photos: [{ fileName: "faucet.jpg", bytes: new Uint8Array([1, 2, 3]), contentType: "image/jpeg" }],
+      });
+
+      const [path, init] = (client.api as jest.Mock).mock.calls[0];
+      expect(path).toBe("Maintenance/Resident/v1/Requests");
+      expect(init.method).toBe("POST");
+      expect(init.headers).toBeUndefined();
+
+      const body = init.body as FormData;
+      expect(JSON.parse(body.get("request") as string)).toEqual({
+        CategoryId: 3,
+        Description: "Leaking faucet",
+        PermissionToEnter: true,
+        EntryInstructions: null,
+      });
+
+      const photo = body.get("photos") as File;
+      expect(photo.name).toBe("faucet.jpg");
+      expect(photo.type).toBe("image/jpeg");
+      expect(new Uint8Array(await photo.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+      expect(result).toEqual({ Id: 8 });
+    });
+
+    it("commentOnMaintenanceRequest() posts the comment", async () => {
+      const comment = { Id: 5, Text: "Still dripping", IsFromResident: true };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(comment) });
+
+      const result = await client.commentOnMaintenanceRequest(7, "Still dripping");
+      expect(client.api).toHaveBeenCalledWith("Maintenance/Resident/v1/Requests(7)/Comments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ Text: "Still dripping" }),
+      });
+      expect(result).toEqual(comment);
+    });
+
+    it("getMaintenanceCategories() returns the active categories in order", async () => {
+      const categories = [{ Id: 3, Description: "Plumbing", IsActive: true, Order: 1 }];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ value: categories }) });
+
+      const result = await client.getMaintenanceCategories();
+      expect((client.api as jest.Mock).mock.calls[0][0]).toBe(
+        "Maintenance/Resident/v1/Categories?$filter=IsActive eq true&$orderby=Order&$skip=0"
+      );
+      expect(result).toEqual(categories);
+    });
+
+    it("getAmenities() returns the reservable amenities", async () => {
+      const amenities = [
+        { id: 1, name: "Party room", isReservable: true },
+        { id: 2, name: "Lobby", isReservable: false },
+      ];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(amenities) });
+
+      const result = await client.getAmenities();
+      expect(client.api).toHaveBeenCalledWith("Amenities/Resident/v1/amenities", {});
+      expect(result).toEqual([{ id: 1, name: "Party room", isReservable: true }]);
+    });
+
+    it("getAmenityAvailability() covers whole days in the building's time zone", async () => {
+      const slots = [
+        { amenityId: 1, startDateUTC: "2024-07-01T22:00:00", isAvailable: true },
+        { amenityId: 1, startDateUTC: "2024-07-01T20:00:00", isAvailable: false },
+        { amenityId: 1, startDateUTC: "2024-07-01T18:00:00", isAvailable: true },
+      ];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(slots) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 1, timeZoneCode: "America/New_York" }]);
+
+      const result = await client.getAmenityAvailability(1, "2024-07-01", "2024-07-01");
+
+      const url = new URL((client.api as jest.Mock).mock.calls[0][0], "https://api.buildinglink.com");
+      expect(url.pathname).toBe("/Amenities/Resident/v1/amenities/1/availability");
+      expect(url.searchParams.get("fromDateTime")).toBe("2024-07-01T04:00:00.000Z");
+      expect(url.searchParams.get("toDateTime")).toBe("2024-07-02T03:59:59.999Z");
+      expect(result.map(({ startDateUTC }) => startDateUTC)).toEqual(["2024-07-01T18:00:00", "2024-07-01T22:00:00"]);
+    });
+
+    it("reserveAmenity() books a slot", async () => {
+      const reservation = { id: 9, amenityId: 1, status: "Pending" };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(reservation) });
+
+      const result = await client.reserveAmenity({
+        amenityId: 1,
+        start: "2024-07-01T18:00:00",
+        end: new Date("2024-07-01T20:00:00Z"),
+        partySize: 12,
+      });
+
+      expect(client.api).toHaveBeenCalledWith("Amenities/Resident/v1/reservations", {
+        propertyId: undefined,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amenityId: 1,
+          startDateUTC: "2024-07-01T18:00:00.000Z",
+          endDateUTC: "2024-07-01T20:00:00.000Z",
+          partySize: 12,
+          notes: null,
+        }),
+      });
+      expect(result).toEqual(reservation);
+    });
+
+    it("reserveAmenity() surfaces the server's validation errors", async () => {
+      const body = JSON.stringify({
+        title: "One or more validation errors occurred.",
+        errors: { PartySize: ["Party size can't exceed 10"], StartDateUTC: ["The slot is no longer available"] },
+      });
+      client.fetch = jest.fn().mockResolvedValue({
+        status: 422,
+        url: "https://api.buildinglink.com/Amenities/Resident/v1/reservations",
+        text: jest.fn().mockResolvedValue(body),
+      });
+
+      const error = await client
+        .reserveAmenity({ amenityId: 1, start: "2024-07-01T18:00:00", end: "2024-07-01T20:00:00", partySize: 12 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.issues).toEqual([
+        { field: "PartySize", message: "Party size can't exceed 10" },
+        { field: "StartDateUTC", message: "The slot is no longer available" },
+      ]);
+      expect(error.message).toBe(
+        "Request to https://api.buildinglink.com/Amenities/Resident/v1/reservations was rejected: " +
+          "PartySize: Party size can't exceed 10; StartDateUTC: The slot is no longer available"
+      );
+    });
+
+    it("cancelReservation() deletes the reservation", async () => {
+      client.api = jest.fn().mockResolvedValue({ status: 204 });
+
+      await client.cancelReservation(9);
+      expect(client.api).toHaveBeenCalledWith("Amenities/Resident/v1/reservations/9", { method: "DELETE" });
+    });
+
+    it("getReservations() returns the upcoming reservations in order", async () => {
+      jest.useFakeTimers({ now: new Date("2024-07-01T12:00:00Z") });
+      const reservations = [
+        { id: 2, startDateUTC: "2024-07-09T18:00:00" },
+        { id: 1, startDateUTC: "2024-07-03T18:00:00" },
+      ];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(reservations) });
+
+      const result = await client.getReservations();
+      expect(client.api).toHaveBeenCalledWith(
+        "Amenities/Resident/v1/reservations?fromDateTime=2024-07-01T12%3A00%3A00.000Z",
+        {}
+      );
+      expect(result.map(({ id }) => id)).toEqual([1, 2]);
+      jest.useRealTimers();
+    });
+
+    it("getVisitorAuthorizations() lists the active authorizations unless asked for all", async () => {
+      const authorizations = [{ id: 1, name: "Jane Walker", type: "Permanent" }];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(authorizations) });
+
+      expect(await client.getVisitorAuthorizations()).toEqual(authorizations);
+      expect(client.api).toHaveBeenCalledWith("FrontDesk/Resident/v1/authorizations", {});
+
+      await client.getVisitorAuthorizations({ includeInactive: true, propertyId: 2 });
+      expect(client.api).toHaveBeenLastCalledWith("FrontDesk/Resident/v1/authorizations?includeInactive=true", {
+        propertyId: 2,
+      });
+    });
+
+    it("getVisitorEntryTypes() returns the entry types", async () => {
+      const entryTypes = [{ id: 4, description: "Key release" }];
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(entryTypes) });
+
+      expect(await client.getVisitorEntryTypes()).toEqual(entryTypes);
+      expect(client.api).toHaveBeenCalledWith("FrontDesk/Resident/v1/authorizations/entrytypes", {});
+    });
+
+    it("createVisitorAuthorization() sends the days in the building's time zone", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ id: 5 }) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 1, timeZoneCode: "America/New_York" }]);
+
+      const result = await client.createVisitorAuthorization({
+        type: "DateRange",
+        // Late evening in New York is still the 1st there
+        from: new Date("2024-07-02T02:00:00Z"),
+        to: "2024-07-31",
+        name: "Jane Walker",
+        notes: "Dog walker, has a key",
+        entryTypeIds: [4],
+      });
+
+      expect(client.api).toHaveBeenCalledWith("FrontDesk/Resident/v1/authorizations", {
+        propertyId: undefined,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: "Jane Walker",
+          notes: "Dog walker, has a key",
+          type: "DateRange",
+          startDate: "2024-07-01",
+          endDate: "2024-07-31",
+          entryTypeIds: [4],
+        }),
+      });
+      expect(result).toEqual({ id: 5 });
+    });
+
+    it("createVisitorAuthorization() sends one-time and permanent authorizations", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ id: 6 }) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 1, timeZoneCode: "America/New_York" }]);
+
+      await client.createVisitorAuthorization({ type: "OneTime", date: "2024-07-04", name: "Cleaner" });
+      await client.createVisitorAuthorization({ type: "Permanent", name: "Mom" });
+
+      const bodies = (client.api as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body));
+      expect(bodies).toEqual([
+        expect.objectContaining({ name: "Cleaner", type: "OneTime", startDate: "2024-07-04", endDate: "2024-07-04" }),
+        { name: "Mom", notes: null, type: "Permanent", startDate: null, endDate: null, entryTypeIds: [] },
+      ]);
+    });
+
+    it("updateVisitorAuthorization() replaces the authorization", async () => {
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue({ id: 5, name: "Jane Walker" }) });
+      client.getBuildings = jest.fn().mockResolvedValue([{ legacyId: 2, timeZoneCode: "America/New_York" }]);
+
+      await client.updateVisitorAuthorization(5, { type: "Permanent", name: "Jane Walker", propertyId: 2 });
+
+      const [path, init] = (client.api as jest.Mock).mock.calls[0];
+      expect(path).toBe("FrontDesk/Resident/v1/authorizations/5");
+      expect(init).toMatchObject({ method: "PUT", propertyId: 2 });
+    });
+
+    it("revokeVisitorAuthorization() deletes the authorization", async () => {
+      client.api = jest.fn().mockResolvedValue({ status: 204 });
+
+      await client.revokeVisitorAuthorization(5);
+      expect(client.api).toHaveBeenCalledWith("FrontDesk/Resident/v1/authorizations/5", { method: "DELETE" });
+    });
+
     it("getPreferredVendors() paginates and returns all vendors", async () => {
       const page1 = { value: [{ Provider: { Id: 1 } }], "@odata.nextLink": "/next" };
       const page2 = { value: [{ Provider: { Id: 2 } }] };
@@ -502,6 +1633,53 @@ describe("BuildingLink", () => {
       expect(result).toEqual([{ Id: 1 }, { Id: 2 }]);
     });
 
+    it("paginate() builds the OData query and streams items page by page", async () => {
+      const page1 = { value: [{ Id: 1 }, { Id: 2 }], "@odata.nextLink": "/next" };
+      const page2 = { value: [{ Id: 3 }] };
+      client.api = jest
+        .fn()
+        .mockResolvedValueOnce({ json: jest.fn().mockResolvedValue(page1) })
+        .mockResolvedValueOnce({ json: jest.fn().mockResolvedValue(page2) });
+
+      const items = [];
+      for await (const item of client.paginate("Test/v1/Items", { $filter: "IsOpen eq true", $skip: 0 })) {
+        items.push(item);
+      }
+
+      expect(client.api).toHaveBeenNthCalledWith(1, "Test/v1/Items?$filter=IsOpen eq true&$skip=0", expect.any(Object));
+      expect(client.api).toHaveBeenNthCalledWith(2, "/next", expect.any(Object));
+      expect(items).toEqual([{ Id: 1 }, { Id: 2 }, { Id: 3 }]);
+    });
+
+    it("paginate() stops fetching pages on early break and limit", async () => {
+      const page = { value: [{ Id: 1 }, { Id: 2 }], "@odata.nextLink": "/next" };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(page) });
+
+      for await (const item of client.iterateDeliveries()) {
+        expect(item).toEqual({ Id: 1 });
+        break;
+      }
+      expect(client.api).toHaveBeenCalledTimes(1);
+
+      const vendors = await client.getVendors({ limit: 3 });
+      expect(vendors).toHaveLength(3);
+      expect(client.api).toHaveBeenCalledTimes(3);
+    });
+
+    it("paginate() stops when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const page = { value: [{ Id: 1 }], "@odata.nextLink": "/next" };
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(page) });
+
+      const iterator = client.paginate("Test/v1/Items", {}, { signal: controller.signal });
+      await iterator.next();
+      controller.abort();
+
+      await expect(iterator.next()).rejects.toThrow();
+      expect(client.api).toHaveBeenCalledTimes(1);
+      expect(client.api).toHaveBeenCalledWith("Test/v1/Items", { signal: controller.signal });
+    });
+
     it("getProperties() returns authorized properties", async () => {
       const mockProperties = { authorizedProperties: { data: [{ id: "prop-1" }] } };
       client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(mockProperties) });
@@ -510,5 +1688,38 @@ describe("BuildingLink", () => {
       expect(client.api).toHaveBeenCalledWith("Properties/AuthenticatedUser/v1/property/authorized-properties");
       expect(result).toEqual([{ id: "prop-1" }]);
     });
+
+    it("returns parsed payloads when validation is enabled", async () => {
+      client.options.validation = "strict";
+      client.fetch = jest.fn().mockResolvedValue({ document: parse(""), url: "https://test" });
+
+      const libraryModule = require("../src/models/Library");
+      jest.spyOn(libraryModule, "parseLibrary").mockReturnValue({ aptDocuments: [], buildingDocuments: [], extra: 1 });
+
+      const result = await client.getLibrary();
+      expect(result).toEqual({ aptDocuments: [], buildingDocuments: [] });
+    });
+
+    it("throws a ValidationError for invalid payloads in strict mode", async () => {
+      client.options.validation = "strict";
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue([{ id: "not-an-announcement" }]) });
+
+      const error = await client.getAnnouncements().catch((e) => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.path).toBe("ContentCreator/Resident/v1/announcements/active");
+      expect(error.issues).toEqual(expect.arrayContaining([expect.objectContaining({ path: [0, "propertyId"] })]));
+    });
+
+    it("warns and returns the raw payload for invalid payloads in warn mode", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const mockAnnouncements = [{ id: "not-an-announcement" }];
+      client.options.validation = "warn";
+      client.api = jest.fn().mockResolvedValue({ json: jest.fn().mockResolvedValue(mockAnnouncements) });
+
+      const result = await client.getAnnouncements();
+      expect(result).toBe(mockAnnouncements);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("ContentCreator/Resident/v1/announcements/active"));
+      warn.mockRestore();
+    });
   });
 });
@@ -0,0 +1,150 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BuildingLink, BuildingLinkOptions } from "../src";
+import { loadCliConfig, runCli } from "../src/Cli";
+
+describe("Cli", () => {
+  let directory: string;
+  let env: Record<string, string | undefined>;
+  let stdout: string;
+  let stderr: string;
+  let options: BuildingLinkOptions | undefined;
+  let client: BuildingLink;
+
+  /**
+   * Runs the CLI with a mocked client, capturing its output
+   */
+  const run = (...argv: string[]) =>
+    runCli(argv, {
+      stdout: { write: (text: string) => (stdout += text) },
+      stderr: { write: (text: string) => (stderr += text) },
+      env,
+      createClient: (clientOptions) => {
+        options = clientOptions;
+        return client;
+      },
+    });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "buildinglink-cli-"));
+    env = {
+      XDG_CONFIG_HOME: join(directory, "config"),
+      XDG_CACHE_HOME: join(directory, "cache"),
+      BUILDINGLINK_USERNAME: "testuser",
+      BUILDINGLINK_PASSWORD: "testpass",
+    };
+    stdout = "";
+    stderr = "";
+    options = undefined;
+    client = new BuildingLink({ username: "testuser", password: "testpass" });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reads the config file and lets environment variables override it", async () => {
+    const file = join(directory, "config.json");
+    writeFileSync(file, JSON.stringify({ username: "fileuser", password: "filepass", propertyId: 1 }));
+
+    const overrides = { ...env, BUILDINGLINK_USERNAME: undefined, BUILDINGLINK_PROPERTY_ID: "2" };
+    const config = await loadCliConfig(overrides, file);
+    expect(config).toMatchObject({ username: "fileuser", password: "testpass", propertyId: 2 });
+    expect(config.session).toBe(join(directory, "cache", "buildinglink", "session.json"));
+  });
+
+  it("caches the session between invocations", async () => {
+    const session = { cookies: { "bl.auth.cookie.oidc": "cached-cookie" }, token: { access_token: "cached-token" } };
+    const fetch = jest.fn();
+    const clients: BuildingLink[] = [];
+    const login = () =>
+      runCli(["login"], {
+        stdout: { write: (text: string) => (stdout += text) },
+        stderr: { write: (text: string) => (stderr += text) },
+        env,
+        createClient: (clientOptions) => {
+          const instance = new BuildingLink({ ...clientOptions, fetch });
+          instance.getOccupant = jest.fn().mockResolvedValue({ fullName: "Jane Doe" });
+          clients.push(instance);
+          return instance;
+        },
+      });
+
+    // The first login goes through the login flow, which saves the session once it has a token
+    jest.spyOn(BuildingLink.prototype, "login").mockImplementationOnce(async function (this: BuildingLink) {
+      this.importSession(session as any);
+      await this.saveSession();
+      return this.token;
+    });
+
+    expect(await login()).toBe(0);
+    const file = join(directory, "cache", "buildinglink", "session.json");
+    expect(JSON.parse(readFileSync(file, "utf8"))).toEqual(session);
+
+    // The second login restores the saved session instead of logging in again
+    expect(await login()).toBe(0);
+    expect(stderr).toBe("");
+    expect(stdout).toBe("Logged in as Jane Doe\nLogged in as Jane Doe\n");
+    expect(clients[1].token?.access_token).toBe("cached-token");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("prints deliveries as a table", async () => {
+    client.getDeliveries = jest.fn().mockResolvedValue([
+      {
+        Id: 12,
+        Type: { DescriptionShort: "Package" },
+        Location: { Description: "Mail room" },
+        OpenDate: null,
+        Description: "Amazon",
+      },
+    ]);
+
+    expect(await run("deliveries", "--status", "all")).toBe(0);
+    expect(client.getDeliveries).toHaveBeenCalledWith({ status: "all" });
+    expect(stdout.split("\n")).toEqual([
+      "ID  Type     Location   Opened  Description",
+      "--  -------  ---------  ------  -----------",
+      "12  Package  Mail room          Amazon",
+      "",
+    ]);
+  });
+
+  it("prints JSON when asked", async () => {
+    const vendors = [{ Name: "Plumber", Category: { Name: "Repairs" }, Phone: "555-0100", Website: "" }];
+    client.getVendors = jest.fn().mockResolvedValue(vendors);
+
+    expect(await run("vendors", "--json")).toBe(0);
+    expect(JSON.parse(stdout)).toEqual(vendors);
+  });
+
+  it("expands events within the requested days", async () => {
+    client.getEvents = jest.fn().mockResolvedValue([]);
+
+    expect(await run("events", "--from", "2024-07-01", "--to", "2024-07-31", "--property", "2")).toBe(0);
+    expect(client.getEvents).toHaveBeenCalledWith("2024-07-01", "2024-07-31", { expand: true, dates: true });
+    expect(options?.propertyId).toBe(2);
+  });
+
+  it("rejects property IDs that aren't positive integers", async () => {
+    client.getVendors = jest.fn().mockResolvedValue([]);
+
+    for (const value of ["abc", "0", "-1", "1.5"]) {
+      stderr = "";
+      expect(await run("vendors", `--property=${value}`)).toBe(2);
+      expect(stderr).toContain(`Invalid --property: ${value}, expected a positive integer`);
+    }
+
+    expect(client.getVendors).not.toHaveBeenCalled();
+  });
+
+  it("reports missing credentials and unknown commands", async () => {
+    expect(await run("bogus")).toBe(2);
+    expect(stderr).toContain("Unknown command: bogus");
+
+    env.BUILDINGLINK_PASSWORD = undefined;
+    expect(await run("whoami")).toBe(1);
+    expect(stderr).toContain("Error: Missing credentials");
+  });
+});
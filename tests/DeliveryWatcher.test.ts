@@ -0,0 +1,107 @@
+import { BuildingLink, DeliveryWatcher, DeliveryWatcherState, MemoryStore } from "../src";
+import * as fixtures from "./helpers";
+
+describe("DeliveryWatcher", () => {
+  let client: BuildingLink;
+
+  const delivery = (Id: number, LastChangeDate = "2024-01-01T00:00:00Z", IsOpen = true) =>
+    fixtures.delivery(Id, { LastChangeDate, IsOpen });
+
+  beforeEach(() => {
+    client = new BuildingLink({ username: "testuser", password: "testpass" });
+  });
+
+  const listen = (watcher: DeliveryWatcher) => {
+    const events: [string, number][] = [];
+    watcher.on("arrived", (d) => events.push(["arrived", d.Id]));
+    watcher.on("updated", (d) => events.push(["updated", d.Id]));
+    watcher.on("closed", (d) => events.push(["closed", d.Id]));
+    return events;
+  };
+
+  it("emits arrived, updated and closed events between polls", async () => {
+    const getDeliveries = jest
+      .spyOn(client, "getDeliveries")
+      .mockResolvedValueOnce([delivery(1), delivery(2)])
+      .mockResolvedValueOnce([delivery(2, "2024-01-02T00:00:00Z"), delivery(3)])
+      .mockResolvedValueOnce([delivery(1, "2024-01-03T00:00:00Z", false)]);
+
+    const watcher = new DeliveryWatcher(client);
+    const events = listen(watcher);
+
+    await watcher.poll();
+    await watcher.poll();
+
+    expect(events).toEqual([
+      ["arrived", 1],
+      ["arrived", 2],
+      ["updated", 2],
+      ["arrived", 3],
+      ["closed", 1],
+    ]);
+    expect(getDeliveries).toHaveBeenLastCalledWith({ status: "all", includeHiddenTypes: true, ids: [1] });
+  });
+
+  it("doesn't re-announce deliveries from the persisted state", async () => {
+    const store = new MemoryStore<DeliveryWatcherState>({ deliveries: { 1: delivery(1) } });
+    jest.spyOn(client, "getDeliveries").mockResolvedValue([delivery(1), delivery(2)]);
+
+    const watcher = new DeliveryWatcher(client, { store });
+    const events = listen(watcher);
+
+    await watcher.poll();
+
+    expect(events).toEqual([["arrived", 2]]);
+    expect(Object.keys((await store.load())!.deliveries)).toEqual(["1", "2"]);
+  });
+
+  it("only emits once the state is saved, so a failed save doesn't re-announce", async () => {
+    const store = new MemoryStore<DeliveryWatcherState>({ deliveries: { 1: delivery(1) } });
+    jest.spyOn(store, "save").mockRejectedValueOnce(new Error("disk full"));
+    jest.spyOn(client, "getDeliveries").mockResolvedValueOnce([delivery(2)]).mockResolvedValue([]);
+
+    const watcher = new DeliveryWatcher(client, { store });
+    const events = listen(watcher);
+
+    await expect(watcher.poll()).rejects.toThrow("disk full");
+    expect(events).toEqual([]);
+
+    jest.spyOn(client, "getDeliveries").mockResolvedValueOnce([delivery(2)]).mockResolvedValueOnce([delivery(1)]);
+    await watcher.poll();
+
+    expect(events).toEqual([
+      ["arrived", 2],
+      ["closed", 1],
+    ]);
+    expect(Object.keys((await store.load())!.deliveries)).toEqual(["2"]);
+  });
+
+  it("polls on an interval until stopped", async () => {
+    jest.useFakeTimers();
+    const getDeliveries = jest.spyOn(client, "getDeliveries").mockResolvedValue([]);
+
+    const watcher = client.watchDeliveries({ interval: 1000 });
+    await jest.advanceTimersByTimeAsync(0);
+    await jest.advanceTimersByTimeAsync(1000);
+    watcher.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(getDeliveries).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it("emits errors from failed polls", async () => {
+    jest.useFakeTimers();
+    const failure = new Error("offline");
+    jest.spyOn(client, "getDeliveries").mockRejectedValue(failure);
+
+    const watcher = client.watchDeliveries();
+    const onError = jest.fn();
+    watcher.on("error", onError);
+    await jest.advanceTimersByTimeAsync(0);
+    watcher.stop();
+
+    expect(onError).toHaveBeenCalledWith(failure);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,146 @@
+import { ApiError, BuildingLink, HttpBridge } from "../src";
+
+describe("HttpBridge", () => {
+  let client: BuildingLink;
+  let bridge: HttpBridge;
+  let baseUrl: string;
+
+  /**
+   * Starts the bridge on a free port
+   */
+  const start = async (options: ConstructorParameters<typeof HttpBridge>[1] = {}) => {
+    bridge = new HttpBridge(client, options);
+    const { port } = await bridge.listen(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+  };
+
+  beforeEach(() => {
+    client = new BuildingLink({ username: "testuser", password: "testpass" });
+  });
+
+  afterEach(async () => {
+    await bridge?.close();
+  });
+
+  it("serves deliveries as JSON and caches them", async () => {
+    const deliveries = [{ Id: 1, Description: "Amazon" }];
+    client.getDeliveries = jest.fn().mockResolvedValue(deliveries);
+    await start();
+
+    const response = await fetch(`${baseUrl}/deliveries?status=all&propertyId=2`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json; charset=utf-8");
+    expect(await response.json()).toEqual(deliveries);
+
+    // Same query in another order hits the cache
+    await fetch(`${baseUrl}/deliveries?propertyId=2&status=all`);
+    expect(client.getDeliveries).toHaveBeenCalledTimes(1);
+    expect(client.getDeliveries).toHaveBeenCalledWith({ status: "all", propertyId: 2 });
+
+    bridge.clearCache();
+    await fetch(`${baseUrl}/deliveries?propertyId=2&status=all`);
+    expect(client.getDeliveries).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys the cache on validated parameters and drops expired entries", async () => {
+    client.getVendors = jest.fn().mockResolvedValue([]);
+    client.getAnnouncements = jest.fn().mockResolvedValue([]);
+    await start({ cacheTtl: 1000 });
+
+    // Unknown parameters don't create entries of their own
+    await fetch(`${baseUrl}/vendors?a=1`);
+    await fetch(`${baseUrl}/vendors?b=2`);
+    expect(client.getVendors).toHaveBeenCalledTimes(1);
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, "now").mockReturnValue(now + 2000);
+    try {
+      await fetch(`${baseUrl}/announcements`);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect([...(bridge as unknown as { cache: Map<string, unknown> }).cache.keys()]).toEqual(["/announcements?"]);
+  });
+
+  it("serves events as JSON and as an iCalendar feed", async () => {
+    client.getEvents = jest.fn().mockResolvedValue([{ id: 1, title: "Pool party" }]);
+    client.getEventsCalendar = jest.fn().mockResolvedValue("BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n");
+    await start();
+
+    const events = await fetch(`${baseUrl}/events?from=2024-07-01&to=2024-07-31&expand=true`);
+    expect(await events.json()).toEqual([{ id: 1, title: "Pool party" }]);
+    expect(client.getEvents).toHaveBeenCalledWith("2024-07-01", "2024-07-31", { expand: true, propertyId: undefined });
+
+    const calendar = await fetch(`${baseUrl}/events.ics?from=2024-07-01&to=2024-07-31`);
+    expect(calendar.headers.get("content-type")).toBe("text/calendar; charset=utf-8");
+    expect(await calendar.text()).toBe("BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n");
+
+    const invalid = await fetch(`${baseUrl}/events?from=July`);
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: "Invalid from date: July" });
+  });
+
+  it("streams library documents", async () => {
+    const doc = { title: "Lease", categories: [], postedOn: new Date(), viewUrl: "", fileId: 7 };
+    client.getLibrary = jest.fn().mockResolvedValue({ aptDocuments: [doc], buildingDocuments: [] });
+    client.streamDocument = jest.fn().mockResolvedValue({
+      stream: new Blob(["%PDF"]).stream(),
+      fileName: "lease 2024.pdf",
+      contentType: "application/pdf",
+      size: 4,
+    });
+    await start();
+
+    const response = await fetch(`${baseUrl}/library/apartment/7`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+    expect(response.headers.get("content-disposition")).toBe("attachment; filename*=UTF-8''lease%202024.pdf");
+    expect(await response.text()).toBe("%PDF");
+    expect(client.streamDocument).toHaveBeenCalledWith(doc);
+
+    const missing = await fetch(`${baseUrl}/library/building/7`);
+    expect(missing.status).toBe(404);
+
+    // The library is fetched once for the listing and both downloads
+    await fetch(`${baseUrl}/library`);
+    expect(client.getLibrary).toHaveBeenCalledTimes(1);
+  });
+
+  it("requires the bearer token when configured", async () => {
+    client.getVendors = jest.fn().mockResolvedValue([]);
+    await start({ token: "secret" });
+
+    const anonymous = await fetch(`${baseUrl}/vendors`);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get("www-authenticate")).toBe("Bearer");
+
+    const wrong = await fetch(`${baseUrl}/vendors`, { headers: { Authorization: "Bearer guess" } });
+    expect(wrong.status).toBe(401);
+
+    const authorized = await fetch(`${baseUrl}/vendors`, { headers: { Authorization: "Bearer secret" } });
+    expect(authorized.status).toBe(200);
+    expect(client.getVendors).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports BuildingLink failures without caching them", async () => {
+    client.getAnnouncements = jest
+      .fn()
+      .mockRejectedValueOnce(new ApiError(503, "https://api.buildinglink.com/announcements", ""))
+      .mockResolvedValueOnce([]);
+    await start();
+
+    const failed = await fetch(`${baseUrl}/announcements`);
+    expect(failed.status).toBe(502);
+    expect(await failed.json()).toEqual({
+      error: "Request to https://api.buildinglink.com/announcements failed with status 503",
+      status: 503,
+    });
+
+    const retried = await fetch(`${baseUrl}/announcements`);
+    expect(retried.status).toBe(200);
+
+    expect((await fetch(`${baseUrl}/unknown`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/vendors`, { method: "POST" })).status).toBe(405);
+  });
+});
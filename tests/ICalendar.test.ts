@@ -0,0 +1,163 @@
+import { BuildingLinkEvent, BuildingLinkCalendarRecurrence, formatRRule, parseRecurrence, toICalendar } from "../src";
+
+describe("ICalendar", () => {
+  const recurrence: BuildingLinkCalendarRecurrence = {
+    id: "recurrence-1",
+    recurrenceState: "Active",
+    frequency: "Weekly",
+    interval: 2,
+    everyWeekday: false,
+    weekDays: ["Monday", "Wednesday"],
+    dayXOfTheMonth: null,
+    xOfThe: null,
+    xOfTheMonth: null,
+    yearlyEveryXMonth: 0,
+    noEnd: false,
+    endOn: "2024-12-31T00:00:00",
+    endAfterTimes: null,
+    parentId: "event-1",
+  };
+
+  const event: BuildingLinkEvent = {
+    id: "event-1",
+    title: "Pool party, BBQ; fun",
+    description: "Bring a towel\nand sunscreen",
+    startDateUTC: "2024-07-08T22:00:00",
+    endDateUTC: "2024-07-09T01:00:00",
+    propertyId: 1234,
+    categoryId: "social",
+    isActive: true,
+    changeDateUTC: "2024-06-02T12:00:00Z",
+    changeUserId: 1,
+    isAllDay: false,
+    createDateUTC: "2024-06-01T12:00:00",
+    createUserId: 1,
+    isRsvpActive: false,
+    isMultiday: false,
+    recurrenceId: "recurrence-1",
+    createdBy: null,
+    updatedBy: null,
+    rsvps: [],
+    calendarRecurrences: recurrence,
+  };
+
+  describe("Recurrence rules", () => {
+    it("maps weekly recurrences with weekdays and an end date", () => {
+      expect(formatRRule(parseRecurrence(recurrence)!)).toBe(
+        "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20241231T000000Z"
+      );
+    });
+
+    it("maps every weekday to Monday through Friday", () => {
+      const rule = parseRecurrence({ ...recurrence, frequency: "Daily", interval: 1, everyWeekday: true });
+      expect(formatRRule(rule!)).toBe("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20241231T000000Z");
+    });
+
+    it("maps monthly recurrences on an ordinal weekday with a count", () => {
+      const rule = parseRecurrence({
+        ...recurrence,
+        frequency: "Monthly",
+        interval: 1,
+        weekDays: "Friday",
+        xOfThe: "Last",
+        endAfterTimes: 6,
+      });
+
+      expect(formatRRule(rule!)).toBe("FREQ=MONTHLY;BYDAY=-1FR;COUNT=6");
+    });
+
+    it("maps yearly recurrences on a day of the month", () => {
+      const rule = parseRecurrence({
+        ...recurrence,
+        frequency: "Yearly",
+        weekDays: null,
+        dayXOfTheMonth: 4,
+        xOfTheMonth: 7,
+        noEnd: true,
+      });
+
+      expect(formatRRule(rule!)).toBe("FREQ=YEARLY;BYMONTHDAY=4;BYMONTH=7");
+    });
+
+    it("ignores events that don't repeat", () => {
+      expect(parseRecurrence(null)).toBeUndefined();
+      expect(parseRecurrence({ ...recurrence, frequency: "" })).toBeUndefined();
+    });
+  });
+
+  describe("Export", () => {
+    it("exports events in the building's time zone", () => {
+      const calendar = toICalendar([event], { timeZone: "America/New_York", name: "Tower Events" });
+      const lines = calendar.split("\r\n");
+
+      expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          "BEGIN:VCALENDAR",
+          "VERSION:2.0",
+          "X-WR-CALNAME:Tower Events",
+          "X-WR-TIMEZONE:America/New_York",
+          "TZID:America/New_York",
+          "DTSTART:20240310T020000",
+          "TZOFFSETFROM:-0500",
+          "TZOFFSETTO:-0400",
+          "UID:event-1@buildinglink.com",
+          "DTSTAMP:20240602T120000Z",
+          "DTSTART;TZID=America/New_York:20240708T180000",
+          "DTEND;TZID=America/New_York:20240708T210000",
+          "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250101T045959Z",
+          "SUMMARY:Pool party\\, BBQ\\; fun",
+          "DESCRIPTION:Bring a towel\\nand sunscreen",
+          "CREATED:20240601T120000Z",
+          "STATUS:CONFIRMED",
+        ])
+      );
+    });
+
+    it("exports all-day and multiday events as dates with an exclusive end", () => {
+      const calendar = toICalendar(
+        [
+          {
+            ...event,
+            isAllDay: true,
+            isMultiday: true,
+            isActive: false,
+            startDateUTC: "2024-07-04T04:00:00Z",
+            endDateUTC: "2024-07-07T04:00:00Z",
+            calendarRecurrences: null,
+          },
+        ],
+        { timeZone: "America/New_York" }
+      );
+
+      expect(calendar).toContain("DTSTART;VALUE=DATE:20240704\r\n");
+      expect(calendar).toContain("DTEND;VALUE=DATE:20240707\r\n");
+      expect(calendar).toContain("STATUS:CANCELLED\r\n");
+      expect(calendar).not.toContain("RRULE:FREQ=WEEKLY");
+    });
+
+    it("exports UTC times without a time zone", () => {
+      const calendar = toICalendar([event]);
+
+      expect(calendar).not.toContain("VTIMEZONE");
+      expect(calendar).toContain("DTSTART:20240708T220000Z\r\n");
+    });
+
+    it("exports the text of HTML descriptions", () => {
+      const description = "<p>Bring a <b>towel</b></p><p>and&nbsp;sunscreen<br>or a hat</p>";
+      const calendar = toICalendar([{ ...event, description }]);
+
+      expect(calendar).toContain("DESCRIPTION:Bring a towel\\nand sunscreen\\nor a hat\r\n");
+    });
+
+    it("folds long lines at 75 octets", () => {
+      const calendar = toICalendar([{ ...event, description: "é".repeat(100) }]);
+
+      for (const line of calendar.split("\r\n")) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+
+      expect(calendar).toMatch(/\r\n é/);
+    });
+  });
+});
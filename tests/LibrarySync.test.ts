@@ -0,0 +1,159 @@
+import { BuildingLink, BuildingLinkLibraryDocument } from "../src";
+import { existsSync, mkdtempSync, readdirSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("LibrarySync", () => {
+  let client: BuildingLink;
+  let targetDir: string;
+
+  const doc = (
+    fileId: number,
+    title: string,
+    categories: string[],
+    revisedOn?: string
+  ): BuildingLinkLibraryDocument => ({
+    title,
+    categories,
+    fileId,
+    postedOn: new Date("2024-01-01T00:00:00Z"),
+    revisedOn: revisedOn ? new Date(revisedOn) : undefined,
+    viewUrl: `https://www.buildinglink.com/V2/Tenant/Library/viewlibdoc.aspx?id=${fileId}`,
+    downloadUrl: `https://www.buildinglink.com/V2/Tenant/Library/getFile.aspx?id=${fileId}`,
+  });
+
+  beforeEach(() => {
+    targetDir = join(mkdtempSync(join(tmpdir(), "buildinglink-")), "library");
+    client = new BuildingLink({ username: "testuser", password: "testpass" });
+    jest.spyOn(client, "streamDocument").mockImplementation(async (d) => ({
+      stream: new Response(`contents of ${d.title}`).body!,
+      fileName: `${d.title}.pdf`,
+      contentType: "application/pdf",
+    }));
+  });
+
+  it("mirrors documents by category and writes a manifest", async () => {
+    jest.spyOn(client, "getLibrary").mockResolvedValue({
+      aptDocuments: [doc(7, "Lease", ["Leases"])],
+      buildingDocuments: [doc(1, "Bylaws", ["Governance"]), doc(2, "Pool Rules", [])],
+    });
+
+    const result = await client.syncLibrary(targetDir);
+
+    expect(result.added.map((entry) => entry.path)).toEqual([
+      join("Apartment", "Leases", "Lease.pdf"),
+      join("Building", "Governance", "Bylaws.pdf"),
+      join("Building", "Uncategorized", "Pool Rules.pdf"),
+    ]);
+    expect(readFileSync(join(targetDir, "Building", "Governance", "Bylaws.pdf"), "utf8")).toBe("contents of Bylaws");
+
+    const manifest = JSON.parse(readFileSync(join(targetDir, "manifest.json"), "utf8"));
+    expect(Object.keys(manifest.documents)).toEqual(["apt:7", "building:1", "building:2"]);
+  });
+
+  it("only downloads new and revised documents on later runs", async () => {
+    jest
+      .spyOn(client, "getLibrary")
+      .mockResolvedValueOnce({
+        aptDocuments: [],
+        buildingDocuments: [doc(1, "Bylaws", ["Governance"]), doc(2, "Notice", ["Notices"])],
+      })
+      .mockResolvedValueOnce({
+        aptDocuments: [],
+        buildingDocuments: [
+          doc(1, "Bylaws", ["Governance"], "2024-06-01T00:00:00Z"),
+          doc(3, "Budget", ["Finance"]),
+        ],
+      });
+
+    await client.syncLibrary(targetDir);
+    const result = await client.syncLibrary(targetDir, { prune: true });
+
+    expect(result.updated.map((entry) => entry.key)).toEqual(["building:1"]);
+    expect(result.added.map((entry) => entry.key)).toEqual(["building:3"]);
+    expect(result.removed.map((entry) => entry.key)).toEqual(["building:2"]);
+    expect(client.streamDocument).toHaveBeenCalledTimes(4);
+    expect(existsSync(join(targetDir, "Building", "Notices", "Notice.pdf"))).toBe(false);
+  });
+
+  it("skips documents that are already up to date", async () => {
+    jest.spyOn(client, "getLibrary").mockResolvedValue({
+      aptDocuments: [],
+      buildingDocuments: [doc(1, "Bylaws", ["Governance"])],
+    });
+
+    await client.syncLibrary(targetDir);
+    const result = await client.syncLibrary(targetDir);
+
+    expect(result.unchanged.map((entry) => entry.key)).toEqual(["building:1"]);
+    expect(client.streamDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps documents with the same name apart", async () => {
+    jest.spyOn(client, "getLibrary").mockResolvedValue({
+      aptDocuments: [],
+      buildingDocuments: [doc(1, "Notice", ["Notices"]), doc(2, "Notice", ["Notices"])],
+    });
+
+    const result = await client.syncLibrary(targetDir);
+
+    expect(result.added.map((entry) => entry.path)).toEqual([
+      join("Building", "Notices", "Notice.pdf"),
+      join("Building", "Notices", "2-Notice.pdf"),
+    ]);
+  });
+
+  it("doesn't overwrite an unchanged document with a new one listed before it", async () => {
+    jest
+      .spyOn(client, "getLibrary")
+      .mockResolvedValueOnce({ aptDocuments: [], buildingDocuments: [doc(1, "rules", ["Notices"])] })
+      .mockResolvedValueOnce({
+        aptDocuments: [],
+        buildingDocuments: [doc(2, "rules", ["Notices"]), doc(1, "rules", ["Notices"])],
+      });
+    jest
+      .spyOn(client, "streamDocument")
+      .mockImplementation(async (d) => ({ stream: new Response(`document ${d.fileId}`).body!, fileName: "rules.pdf" }));
+
+    await client.syncLibrary(targetDir);
+    const result = await client.syncLibrary(targetDir);
+
+    expect(result.added.map((entry) => entry.path)).toEqual([join("Building", "Notices", "2-rules.pdf")]);
+    expect(result.unchanged.map((entry) => entry.path)).toEqual([join("Building", "Notices", "rules.pdf")]);
+    expect(readFileSync(join(targetDir, "Building", "Notices", "rules.pdf"), "utf8")).toBe("document 1");
+    expect(readFileSync(join(targetDir, "Building", "Notices", "2-rules.pdf"), "utf8")).toBe("document 2");
+  });
+
+  it("doesn't prune the file of a document replaced by one with the same name", async () => {
+    jest
+      .spyOn(client, "getLibrary")
+      .mockResolvedValueOnce({ aptDocuments: [], buildingDocuments: [doc(1, "Bylaws", ["Rules"])] })
+      .mockResolvedValueOnce({ aptDocuments: [], buildingDocuments: [doc(2, "Bylaws", ["Rules"])] });
+
+    await client.syncLibrary(targetDir);
+    const result = await client.syncLibrary(targetDir, { prune: true });
+
+    expect(result.removed.map((entry) => entry.key)).toEqual(["building:1"]);
+    expect(result.added.map((entry) => entry.path)).toEqual([join("Building", "Rules", "Bylaws.pdf")]);
+    expect(readFileSync(join(targetDir, "Building", "Rules", "Bylaws.pdf"), "utf8")).toBe("contents of Bylaws");
+  });
+
+  it("removes the temporary file when a download fails", async () => {
+    jest.spyOn(client, "getLibrary").mockResolvedValue({
+      aptDocuments: [],
+      buildingDocuments: [doc(1, "Bylaws", ["Governance"])],
+    });
+    jest.spyOn(client, "streamDocument").mockResolvedValue({
+      stream: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode("partial"));
+          controller.error(new Error("connection reset"));
+        },
+      }),
+      fileName: "Bylaws.pdf",
+    });
+
+    await expect(client.syncLibrary(targetDir)).rejects.toThrow("connection reset");
+    expect(readdirSync(join(targetDir, "Building", "Governance"))).toEqual([]);
+  });
+});
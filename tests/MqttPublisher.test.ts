@@ -0,0 +1,211 @@
+import { BuildingLink, MqttClient, MqttPublisher, MqttPublishOptions } from "../src";
+import * as fixtures from "./helpers";
+
+/**
+ * In-memory broker that keeps the retained message of every topic, like a local Mosquitto would
+ */
+class LocalBroker implements MqttClient {
+  /** Retained messages, keyed by topic */
+  retained = new Map<string, string>();
+  /** Every published topic, in order */
+  topics: string[] = [];
+
+  async publishAsync(topic: string, message: string, options?: MqttPublishOptions): Promise<void> {
+    this.topics.push(topic);
+    if (options?.retain) {
+      this.retained.set(topic, message);
+    }
+  }
+
+  /** Parses a retained JSON message */
+  json(topic: string) {
+    return JSON.parse(this.retained.get(topic)!);
+  }
+}
+
+describe("MqttPublisher", () => {
+  let client: BuildingLink;
+  let broker: LocalBroker;
+
+  const delivery = (Id: number, type: string, location: string) =>
+    fixtures.delivery(Id, {
+      Type: { DescriptionShort: type },
+      Location: { Description: location },
+      OpenDate: "2024-07-01T12:00:00Z",
+    });
+
+  const announcement = (id: string, startDate: string, isHighPriority: boolean) =>
+    fixtures.announcement(id, {
+      startDate,
+      endDate: startDate,
+      isHighPriority,
+      emailSubject: null,
+      body: `<p>Notice&nbsp;${id}</p>`,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-07-01T12:00:00Z"), doNotFake: ["nextTick", "setImmediate"] });
+    client = new BuildingLink({ username: "testuser", password: "testpass" });
+    broker = new LocalBroker();
+
+    jest
+      .spyOn(client, "getDeliveries")
+      .mockResolvedValue([
+        delivery(1, "Package", "Mail room"),
+        delivery(2, "Package", "Shelf"),
+        delivery(3, "Dry cleaning", "Front desk"),
+      ]);
+    jest
+      .spyOn(client, "getAnnouncements")
+      .mockResolvedValue([
+        announcement("old", "2024-06-01T00:00:00Z", true),
+        announcement("latest", "2024-06-20T00:00:00Z", true),
+        announcement("routine", "2024-06-30T00:00:00Z", false),
+      ]);
+    jest.spyOn(client, "getEvents").mockResolvedValue([
+      {
+        occurrenceId: "1:2024-07-01T10:00:00.000Z",
+        title: "Yoga",
+        description: "",
+        startDateUTC: new Date("2024-07-01T10:00:00Z"),
+        endDateUTC: new Date("2024-07-01T13:00:00Z"),
+        isAllDay: false,
+      },
+      {
+        occurrenceId: "2:2024-07-04T22:00:00.000Z",
+        title: "Fireworks",
+        description: "<b>Roof deck</b>",
+        startDateUTC: new Date("2024-07-04T22:00:00Z"),
+        endDateUTC: new Date("2024-07-04T23:00:00Z"),
+        isAllDay: false,
+      },
+    ] as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("publishes deliveries, the latest high-priority announcement and the next event", async () => {
+    await new MqttPublisher(client, { mqtt: broker }).poll();
+
+    const openDate = "2024-07-01T12:00:00Z";
+    expect(broker.json("buildinglink/deliveries")).toEqual({
+      state: 3,
+      attributes: {
+        types: { Package: 2, "Dry cleaning": 1 },
+        deliveries: [
+          { id: 1, type: "Package", location: "Mail room", description: "Delivery 1", openDate },
+          { id: 2, type: "Package", location: "Shelf", description: "Delivery 2", openDate },
+          { id: 3, type: "Dry cleaning", location: "Front desk", description: "Delivery 3", openDate },
+        ],
+      },
+    });
+    expect(broker.json("buildinglink/announcement")).toMatchObject({
+      state: "Notice latest",
+      attributes: { id: "latest", text: "Notice latest" },
+    });
+    expect(broker.json("buildinglink/next_event")).toEqual({
+      state: "2024-07-04T22:00:00.000Z",
+      attributes: {
+        id: "2:2024-07-04T22:00:00.000Z",
+        title: "Fireworks",
+        description: "Roof deck",
+        start: "2024-07-04T22:00:00.000Z",
+        end: "2024-07-04T23:00:00.000Z",
+        allDay: false,
+      },
+    });
+    expect(broker.retained.get("buildinglink/status")).toBe("online");
+    expect(client.getEvents).toHaveBeenCalledWith(new Date("2024-07-01T12:00:00Z"), new Date("2024-07-31T12:00:00Z"), {
+      expand: true,
+      dates: true,
+      propertyId: undefined,
+    });
+  });
+
+  it("publishes Home Assistant discovery once", async () => {
+    const publisher = new MqttPublisher(client, { mqtt: broker, propertyId: 1234 });
+    await publisher.poll();
+    await publisher.poll();
+
+    const discovery = broker.topics.filter((topic) => topic.startsWith("homeassistant/"));
+    expect(discovery).toEqual([
+      "homeassistant/sensor/buildinglink_1234/deliveries/config",
+      "homeassistant/sensor/buildinglink_1234/announcement/config",
+      "homeassistant/sensor/buildinglink_1234/next_event/config",
+    ]);
+    expect(broker.json("homeassistant/sensor/buildinglink_1234/deliveries/config")).toMatchObject({
+      name: "Packages waiting",
+      unique_id: "buildinglink_1234_deliveries",
+      state_topic: "buildinglink/1234/deliveries",
+      value_template: "{{ value_json.state if value_json.state is not none else None }}",
+      availability_topic: "buildinglink/1234/status",
+      device: { identifiers: ["buildinglink_1234"] },
+    });
+    expect(client.getDeliveries).toHaveBeenCalledWith({ status: "open", propertyId: 1234 });
+  });
+
+  it("publishes unknown states and marks the sensors offline when stopped", async () => {
+    jest.spyOn(client, "getAnnouncements").mockResolvedValue([]);
+    jest.spyOn(client, "getEvents").mockResolvedValue([]);
+
+    const publisher = new MqttPublisher(client, { mqtt: broker, discoveryPrefix: false });
+    publisher.start();
+    await jest.advanceTimersByTimeAsync(0);
+    await publisher.stop();
+
+    expect(broker.json("buildinglink/announcement")).toEqual({ state: null, attributes: {} });
+    expect(broker.json("buildinglink/next_event")).toEqual({ state: null, attributes: {} });
+    expect(broker.retained.get("buildinglink/status")).toBe("offline");
+    expect(broker.topics.some((topic) => topic.startsWith("homeassistant/"))).toBe(false);
+  });
+});
+
+/**
+ * Runs against a real broker when `MQTT_URL` is set, e.g.
+ * `docker run -p 1883:1883 eclipse-mosquitto mosquitto -c /mosquitto-no-auth.conf`
+ * then `MQTT_URL=mqtt://localhost:1883 pnpm test MqttPublisher`
+ */
+(process.env.MQTT_URL ? describe : describe.skip)("MqttPublisher with a local broker", () => {
+  const prefix = `buildinglink-test-${process.pid}`;
+  let mqtt: import("mqtt").MqttClient;
+
+  beforeAll(async () => {
+    mqtt = await (await import("mqtt")).connectAsync(process.env.MQTT_URL!);
+  });
+
+  afterAll(async () => {
+    await mqtt.endAsync();
+  });
+
+  it("retains the state and discovery messages", async () => {
+    const client = new BuildingLink({ username: "testuser", password: "testpass" });
+    jest.spyOn(client, "getDeliveries").mockResolvedValue([]);
+    jest.spyOn(client, "getAnnouncements").mockResolvedValue([]);
+    jest.spyOn(client, "getEvents").mockResolvedValue([]);
+
+    const publisher = new MqttPublisher(client, { mqtt, topicPrefix: prefix, discoveryPrefix: `${prefix}-discovery` });
+    await publisher.poll();
+
+    // A new subscriber gets the retained messages
+    const retained = new Map<string, string>();
+    mqtt.on("message", (topic, message) => retained.set(topic, message.toString()));
+    await mqtt.subscribeAsync([`${prefix}/#`, `${prefix}-discovery/#`]);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    // Clear the retained messages, so the broker is left as it was
+    await Promise.all([...retained.keys()].map((topic) => mqtt.publishAsync(topic, "", { retain: true })));
+
+    expect(JSON.parse(retained.get(`${prefix}/deliveries`)!)).toEqual({
+      state: 0,
+      attributes: { types: {}, deliveries: [] },
+    });
+    expect(JSON.parse(retained.get(`${prefix}/next_event`)!)).toEqual({ state: null, attributes: {} });
+    expect(retained.get(`${prefix}/status`)).toBe("online");
+    expect(JSON.parse(retained.get(`${prefix}-discovery/sensor/buildinglink/next_event/config`)!)).toMatchObject({
+      state_topic: `${prefix}/next_event`,
+      device_class: "timestamp",
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { BuildingLinkEvent, BuildingLinkCalendarRecurrence, expandEvent, expandEvents } from "../src";
+
+describe("Recurrence", () => {
+  const recurrence: BuildingLinkCalendarRecurrence = {
+    id: "recurrence-1",
+    recurrenceState: "Active",
+    frequency: "Weekly",
+    interval: 2,
+    everyWeekday: false,
+    weekDays: ["Monday", "Wednesday"],
+    dayXOfTheMonth: null,
+    xOfThe: null,
+    xOfTheMonth: null,
+    yearlyEveryXMonth: 0,
+    noEnd: true,
+    endOn: null,
+    endAfterTimes: null,
+    parentId: "event-1",
+  };
+
+  // Mondays at 6pm in New York
+  const event: BuildingLinkEvent = {
+    id: "event-1",
+    title: "Yoga",
+    description: "",
+    startDateUTC: "2024-07-08T22:00:00",
+    endDateUTC: "2024-07-08T23:00:00",
+    propertyId: 1234,
+    categoryId: "social",
+    isActive: true,
+    changeDateUTC: "2024-06-01T00:00:00",
+    changeUserId: 1,
+    isAllDay: false,
+    createDateUTC: "2024-06-01T00:00:00",
+    createUserId: 1,
+    isRsvpActive: false,
+    isMultiday: false,
+    recurrenceId: "recurrence-1",
+    createdBy: null,
+    updatedBy: null,
+    rsvps: [],
+    calendarRecurrences: recurrence,
+  };
+
+  const timeZone = "America/New_York";
+
+  /**
+   * Expands an event and returns the start of each occurrence
+   */
+  function starts(overrides: Partial<BuildingLinkEvent>, from: string, to: string): string[] {
+    return expandEvent({ ...event, ...overrides }, { from: new Date(from), to: new Date(to), timeZone }).map(
+      ({ startDateUTC }) => startDateUTC
+    );
+  }
+
+  it("expands weekly recurrences on several weekdays", () => {
+    const occurrences = expandEvent(event, {
+      from: new Date("2024-07-01T00:00:00Z"),
+      to: new Date("2024-08-01T00:00:00Z"),
+      timeZone,
+    });
+
+    expect(occurrences.map(({ startDateUTC }) => startDateUTC)).toEqual([
+      "2024-07-08T22:00:00.000Z",
+      "2024-07-10T22:00:00.000Z",
+      "2024-07-22T22:00:00.000Z",
+      "2024-07-24T22:00:00.000Z",
+    ]);
+    expect(occurrences[1]).toMatchObject({
+      id: "event-1",
+      endDateUTC: "2024-07-10T23:00:00.000Z",
+      occurrenceId: "event-1:2024-07-10T22:00:00.000Z",
+      occurrenceIndex: 2,
+    });
+  });
+
+  it("keeps the local time across daylight saving changes", () => {
+    const weekly = { ...recurrence, interval: 1, weekDays: ["Monday"] };
+
+    expect(starts({ calendarRecurrences: weekly }, "2024-10-27T00:00:00Z", "2024-11-12T00:00:00Z")).toEqual([
+      "2024-10-28T22:00:00.000Z",
+      "2024-11-04T23:00:00.000Z",
+      "2024-11-11T23:00:00.000Z",
+    ]);
+  });
+
+  it("counts occurrences before the window towards the end condition", () => {
+    const daily = { ...recurrence, frequency: "Daily", interval: 1, noEnd: false, endAfterTimes: 5 };
+    const occurrences = expandEvent(
+      { ...event, calendarRecurrences: daily },
+      { from: new Date("2024-07-10T00:00:00Z"), to: new Date("2024-08-01T00:00:00Z"), timeZone }
+    );
+
+    expect(occurrences.map(({ occurrenceIndex }) => occurrenceIndex)).toEqual([3, 4, 5]);
+  });
+
+  it("includes the occurrences of the end date", () => {
+    const daily = { ...recurrence, frequency: "Daily", interval: 1, noEnd: false, endOn: "2024-07-10T00:00:00" };
+
+    expect(starts({ calendarRecurrences: daily }, "2024-07-01T00:00:00Z", "2024-08-01T00:00:00Z")).toEqual([
+      "2024-07-08T22:00:00.000Z",
+      "2024-07-09T22:00:00.000Z",
+      "2024-07-10T22:00:00.000Z",
+    ]);
+  });
+
+  it("expands monthly recurrences on an ordinal weekday", () => {
+    const monthly = { ...recurrence, frequency: "Monthly", interval: 1, weekDays: ["Friday"], xOfThe: "Last" };
+
+    expect(
+      starts(
+        { calendarRecurrences: monthly, startDateUTC: "2024-07-26T22:00:00", endDateUTC: "2024-07-26T23:00:00" },
+        "2024-07-01T00:00:00Z",
+        "2024-10-01T00:00:00Z"
+      )
+    ).toEqual(["2024-07-26T22:00:00.000Z", "2024-08-30T22:00:00.000Z", "2024-09-27T22:00:00.000Z"]);
+  });
+
+  it("skips months without the day of the month", () => {
+    const monthly = { ...recurrence, frequency: "Monthly", interval: 1, weekDays: null, dayXOfTheMonth: 31 };
+
+    expect(
+      starts(
+        { calendarRecurrences: monthly, startDateUTC: "2024-07-31T22:00:00", endDateUTC: "2024-07-31T23:00:00" },
+        "2024-07-01T00:00:00Z",
+        "2024-11-01T00:00:00Z"
+      )
+    ).toEqual(["2024-07-31T22:00:00.000Z", "2024-08-31T22:00:00.000Z", "2024-10-31T22:00:00.000Z"]);
+  });
+
+  it("returns events that don't repeat when they overlap the window", () => {
+    const single = { ...event, calendarRecurrences: null, recurrenceId: null };
+    const window = { from: new Date("2024-07-08T22:30:00Z"), to: new Date("2024-07-09T00:00:00Z"), timeZone };
+
+    expect(expandEvent(single, window)).toHaveLength(1);
+    expect(expandEvent(single, { ...window, from: new Date("2024-07-09T00:00:00Z") })).toEqual([]);
+  });
+
+  it("orders the occurrences of several events", () => {
+    const daily = { ...recurrence, frequency: "Daily", interval: 1 };
+    const occurrences = expandEvents(
+      [
+        { ...event, id: "event-1" },
+        { ...event, id: "event-2", calendarRecurrences: daily },
+      ],
+      { from: new Date("2024-07-08T00:00:00Z"), to: new Date("2024-07-11T00:00:00Z"), timeZone }
+    );
+
+    expect(occurrences.map(({ id, startDateUTC }) => `${id} ${startDateUTC.slice(0, 10)}`)).toEqual([
+      "event-1 2024-07-08",
+      "event-2 2024-07-08",
+      "event-2 2024-07-09",
+      "event-1 2024-07-10",
+      "event-2 2024-07-10",
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { endOfDay, parseTimestamps, parseUtcDate, startOfDay, zonedDateTimeToDate } from "../src";
+
+describe("TimeZone", () => {
+  it("reads API timestamps without an offset as UTC", () => {
+    expect(parseUtcDate("2024-07-01T22:00:00").toISOString()).toBe("2024-07-01T22:00:00.000Z");
+    expect(parseUtcDate("2024-07-01T22:00:00-04:00").toISOString()).toBe("2024-07-02T02:00:00.000Z");
+  });
+
+  it("converts wall-clock times across daylight saving changes", () => {
+    const timeZone = "America/New_York";
+
+    expect(zonedDateTimeToDate({ year: 2024, month: 1, day: 15, hour: 9 }, timeZone).toISOString()).toBe(
+      "2024-01-15T14:00:00.000Z"
+    );
+    expect(zonedDateTimeToDate({ year: 2024, month: 7, day: 15, hour: 9 }, timeZone).toISOString()).toBe(
+      "2024-07-15T13:00:00.000Z"
+    );
+  });
+
+  it("gets the bounds of a day in a time zone", () => {
+    expect(startOfDay("2024-03-10", "America/New_York").toISOString()).toBe("2024-03-10T05:00:00.000Z");
+    expect(endOfDay("2024-03-10", "America/New_York").toISOString()).toBe("2024-03-11T03:59:59.999Z");
+
+    // Dates are read in the time zone, so late evening in New York is still the same day
+    expect(startOfDay(new Date("2024-07-02T03:00:00Z"), "America/New_York").toISOString()).toBe(
+      "2024-07-01T04:00:00.000Z"
+    );
+  });
+
+  it("converts the timestamps of models to dates", () => {
+    const delivery = {
+      Id: 1,
+      OpenDate: "2024-07-01T12:00:00Z",
+      CloseDate: null,
+      Type: { DescriptionShort: "Package", CreatedDateTime: "2024-01-01T00:00:00Z" },
+      Description: "2024-07-01",
+    };
+
+    expect(parseTimestamps([delivery])).toEqual([
+      {
+        Id: 1,
+        OpenDate: new Date("2024-07-01T12:00:00Z"),
+        CloseDate: null,
+        Type: { DescriptionShort: "Package", CreatedDateTime: new Date("2024-01-01T00:00:00Z") },
+        Description: "2024-07-01",
+      },
+    ]);
+  });
+});
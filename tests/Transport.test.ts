@@ -0,0 +1,104 @@
+import { RecordingTransport, ReplayTransport, scrubUrl } from "../src";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("Transport", () => {
+  const fixture = () => join(mkdtempSync(join(tmpdir(), "buildinglink-")), "fixture.json");
+
+  const oidcForm = `
+    <form action="https://www.buildinglink.com/signin-oidc">
+      <input type="hidden" name="access_token" value="secret-access-token" />
+      <input type="hidden" value="secret-code" name="code" />
+      <input type="hidden" name="token_type" value="Bearer" />
+    </form>
+    <p>Welcome back, Jane Resident</p>
+  `;
+
+  const mockFetch = () =>
+    jest.fn().mockImplementation(async () => {
+      const headers = new Headers({ "content-type": "text/html; charset=utf-8" });
+      headers.append("set-cookie", "bl.auth.cookie.oidc=secret-cookie; path=/; secure");
+      return new Response(oidcForm, { status: 200, headers });
+    });
+
+  describe("RecordingTransport", () => {
+    it("records exchanges with secrets scrubbed", async () => {
+      const path = fixture();
+      const transport = new RecordingTransport(path, { fetch: mockFetch(), secrets: ["Jane Resident", "hunter2"] });
+
+      const response = await transport.fetch("https://auth.buildinglink.com/callback?code=secret-code&client_id=web", {
+        method: "POST",
+        headers: { cookie: "session=secret-session" },
+        body: new URLSearchParams({ Username: "jane", Password: "hunter2", ReturnUrl: "/" }),
+      });
+
+      // The caller still gets the real response
+      expect(await response.text()).toBe(oidcForm);
+
+      await transport.save();
+      const recording = readFileSync(path, "utf8");
+
+      const secrets = ["secret-access-token", "secret-code", "secret-cookie", "secret-session", "hunter2", "Jane Resident"];
+      for (const secret of secrets) {
+        expect(recording).not.toContain(secret);
+      }
+
+      const [{ request, response: recorded }] = JSON.parse(recording).exchanges;
+      expect(request).toEqual({
+        method: "POST",
+        url: "https://auth.buildinglink.com/callback?code=REDACTED&client_id=web",
+        body: "Username=REDACTED&Password=REDACTED&ReturnUrl=%2F",
+      });
+      expect(recorded.headers).toContainEqual(["set-cookie", "bl.auth.cookie.oidc=REDACTED; path=/; secure"]);
+      expect(recorded.body).toContain('name="token_type" value="Bearer"');
+    });
+
+    it("stores binary bodies as base64", async () => {
+      const transport = new RecordingTransport(fixture(), {
+        fetch: jest.fn().mockResolvedValue(
+          new Response(new Uint8Array([37, 80, 68, 70]), { headers: { "content-type": "application/pdf" } })
+        ),
+      });
+
+      await transport.fetch("https://www.buildinglink.com/getFile.aspx?id=1");
+
+      expect(transport.exchanges[0].response).toMatchObject({ body: "JVBERg==", encoding: "base64" });
+    });
+  });
+
+  describe("ReplayTransport", () => {
+    it("replays recorded exchanges in order", async () => {
+      const path = fixture();
+      const recorder = new RecordingTransport(path, { fetch: mockFetch() });
+      await recorder.fetch("https://www.buildinglink.com/home");
+      await recorder.fetch("https://www.buildinglink.com/home");
+      await recorder.save();
+
+      const transport = new ReplayTransport(path);
+      const first = await transport.fetch("https://www.buildinglink.com/home");
+      const second = await transport.fetch("https://www.buildinglink.com/home");
+
+      expect(first.status).toBe(200);
+      expect(first.url).toBe("https://www.buildinglink.com/home");
+      expect(first.headers.getSetCookie()).toEqual(["bl.auth.cookie.oidc=REDACTED; path=/; secure"]);
+      expect(await second.text()).toContain('name="access_token" value="REDACTED"');
+      await expect(transport.fetch("https://www.buildinglink.com/home")).rejects.toThrow("No recorded exchange");
+    });
+
+    it("matches requests regardless of secret query parameters", async () => {
+      const path = fixture();
+      const recorder = new RecordingTransport(path, { fetch: mockFetch() });
+      await recorder.fetch("https://auth.buildinglink.com/callback?state=abc");
+      await recorder.save();
+
+      const transport = new ReplayTransport(path);
+      const response = await transport.fetch("https://auth.buildinglink.com/callback?state=xyz");
+
+      expect(response.status).toBe(200);
+      expect(scrubUrl("https://auth.buildinglink.com/callback?state=xyz")).toBe(
+        "https://auth.buildinglink.com/callback?state=REDACTED"
+      );
+    });
+  });
+});
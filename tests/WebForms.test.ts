@@ -0,0 +1,67 @@
+import { buildPostback, getFormFields, parseDoPostBack } from "../src";
+import { parse } from "node-html-parser";
+
+describe("WebForms", () => {
+  const page = parse(`
+    <form method="post" action="./Deliveries.aspx?view=all" id="aspnetForm">
+      <input type="hidden" name="__EVENTTARGET" value="" />
+      <input type="hidden" name="__EVENTARGUMENT" value="" />
+      <input type="hidden" name="__VIEWSTATE" value="viewstate" />
+      <input type="hidden" name="__EVENTVALIDATION" value="validation" />
+      <input type="text" name="ctl00$Search" value="boxes" />
+      <input type="text" name="ctl00$Disabled" value="skipped" disabled />
+      <input type="checkbox" name="ctl00$ShowClosed" checked />
+      <input type="checkbox" name="ctl00$ShowHidden" value="yes" />
+      <input type="radio" name="ctl00$Sort" value="asc" />
+      <input type="radio" name="ctl00$Sort" value="desc" checked />
+      <select name="ctl00$PageSize"><option value="10">10</option><option value="50" selected>50</option></select>
+      <select name="ctl00$Type"><option value="all">All</option><option value="packages">Packages</option></select>
+      <textarea name="ctl00$Note">Leave at door</textarea>
+      <input type="submit" name="ctl00$Save" value="Save" />
+      <input type="image" name="ctl00$Export" src="export.png" />
+    </form>
+  `);
+
+  it("collects the fields a browser would submit", () => {
+    expect(getFormFields(page.querySelector("form")!)).toEqual([
+      ["__EVENTTARGET", ""],
+      ["__EVENTARGUMENT", ""],
+      ["__VIEWSTATE", "viewstate"],
+      ["__EVENTVALIDATION", "validation"],
+      ["ctl00$Search", "boxes"],
+      ["ctl00$ShowClosed", "on"],
+      ["ctl00$Sort", "desc"],
+      ["ctl00$PageSize", "50"],
+      ["ctl00$Type", "all"],
+      ["ctl00$Note", "Leave at door"],
+    ]);
+  });
+
+  it("builds a postback with the event target and extra fields", () => {
+    const request = buildPostback(page, "https://www.buildinglink.com/V2/Tenant/Deliveries/Deliveries.aspx", {
+      eventTarget: "ctl00$Grid",
+      eventArgument: "Page$2",
+      fields: { "ctl00$Search": "envelopes", "ctl00$Save": "Save" },
+    })!;
+
+    expect(request.action).toBe("https://www.buildinglink.com/V2/Tenant/Deliveries/Deliveries.aspx?view=all");
+    expect(request.body.get("__EVENTTARGET")).toBe("ctl00$Grid");
+    expect(request.body.get("__EVENTARGUMENT")).toBe("Page$2");
+    expect(request.body.get("__VIEWSTATE")).toBe("viewstate");
+    expect(request.body.get("ctl00$Search")).toBe("envelopes");
+    expect(request.body.get("ctl00$Save")).toBe("Save");
+  });
+
+  it("returns undefined for pages without a form", () => {
+    expect(buildPostback(parse("<p>No form</p>"), "https://www.buildinglink.com/")).toBeUndefined();
+  });
+
+  it("parses __doPostBack calls", () => {
+    expect(parseDoPostBack("javascript:__doPostBack('ctl00$Grid$ctl02','Select$0')")).toEqual({
+      eventTarget: "ctl00$Grid$ctl02",
+      eventArgument: "Select$0",
+    });
+    expect(parseDoPostBack("javascript:void(0)")).toBeUndefined();
+    expect(parseDoPostBack(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  BuildingLink,
+  BuildingLinkError,
+  MemoryStore,
+  verifyWebhook,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookDispatcher,
+  WebhookDispatcherState,
+  WebhookResponseError,
+} from "../src";
+import { announcement, delivery } from "./helpers";
+
+describe("WebhookDispatcher", () => {
+  let client: BuildingLink;
+  let fetch: jest.Mock;
+
+  /**
+   * Gets the payload IDs POSTed to a URL
+   */
+  const sent = (url: string) =>
+    fetch.mock.calls.filter(([target]) => target === url).map(([, init]) => JSON.parse(init.body).id);
+
+  beforeEach(() => {
+    client = new BuildingLink({ username: "testuser", password: "testpass" });
+    fetch = jest.fn().mockImplementation(async () => new Response("ok"));
+    jest.spyOn(client, "getDeliveries").mockResolvedValue([delivery(1), delivery(2)]);
+    jest.spyOn(client, "getAnnouncements").mockResolvedValue([announcement("a1")]);
+    jest.spyOn(client, "getEvents").mockResolvedValue([]);
+  });
+
+  it("sends each new item to every target exactly once, signed", async () => {
+    const store = new MemoryStore<WebhookDispatcherState>();
+    const targets = [
+      { url: "https://chat.example.com/hook", secret: "shh" },
+      { url: "https://tickets.example.com/hook", resources: ["delivery" as const] },
+    ];
+
+    await new WebhookDispatcher(client, { targets, store, fetch }).poll();
+
+    expect(sent("https://chat.example.com/hook")).toEqual(["delivery:1", "delivery:2", "announcement:a1"]);
+    expect(sent("https://tickets.example.com/hook")).toEqual(["delivery:1", "delivery:2"]);
+
+    const [, init] = fetch.mock.calls[0];
+    expect(JSON.parse(init.body)).toMatchObject({ type: "delivery.created", resource: "delivery", data: delivery(1) });
+    expect(
+      verifyWebhook("shh", init.headers[WEBHOOK_TIMESTAMP_HEADER], init.body, init.headers[WEBHOOK_SIGNATURE_HEADER])
+    ).toBe(true);
+    expect(fetch.mock.calls[3][1].headers[WEBHOOK_SIGNATURE_HEADER]).toBeUndefined();
+
+    // A restarted dispatcher picks up the cursors and only sends the new delivery
+    jest.spyOn(client, "getDeliveries").mockResolvedValue([delivery(2), delivery(3)]);
+    fetch.mockClear();
+    await new WebhookDispatcher(client, { targets, store, fetch }).poll();
+
+    expect(sent("https://chat.example.com/hook")).toEqual(["delivery:3"]);
+    expect(sent("https://tickets.example.com/hook")).toEqual(["delivery:3"]);
+    expect((await store.load())!.cursors["https://tickets.example.com/hook"]).toEqual({ delivery: ["2", "3"] });
+  });
+
+  it("stamps payloads with when the item was first seen", async () => {
+    jest.useFakeTimers({ now: new Date("2024-07-01T12:00:00Z") });
+    const store = new MemoryStore<WebhookDispatcherState>();
+    const chat = { url: "https://chat.example.com/hook", resources: ["delivery" as const] };
+    const tickets = { url: "https://tickets.example.com/hook", resources: ["delivery" as const] };
+
+    await new WebhookDispatcher(client, { targets: [chat], store, fetch }).poll();
+
+    // A target added later receives the same createdAt
+    jest.setSystemTime(new Date("2024-07-02T12:00:00Z"));
+    jest.spyOn(client, "getDeliveries").mockResolvedValue([delivery(2), delivery(3)]);
+    fetch.mockClear();
+    await new WebhookDispatcher(client, { targets: [chat, tickets], store, fetch }).poll();
+    jest.useRealTimers();
+
+    const createdAt = Object.fromEntries(
+      fetch.mock.calls.map(([url, init]) => [`${url} ${JSON.parse(init.body).id}`, JSON.parse(init.body).createdAt])
+    );
+    expect(createdAt).toEqual({
+      "https://chat.example.com/hook delivery:3": "2024-07-02T12:00:00.000Z",
+      "https://tickets.example.com/hook delivery:2": "2024-07-01T12:00:00.000Z",
+      "https://tickets.example.com/hook delivery:3": "2024-07-02T12:00:00.000Z",
+    });
+    expect((await store.load())!.firstSeen).toEqual({
+      "delivery:2": "2024-07-01T12:00:00.000Z",
+      "delivery:3": "2024-07-02T12:00:00.000Z",
+    });
+  });
+
+  it("retries transient failures and dead-letters payloads that keep failing", async () => {
+    const deadLetterFile = join(mkdtempSync(join(tmpdir(), "buildinglink-webhooks-")), "logs", "dead-letters.jsonl");
+    const targets = [{ url: "https://down.example.com/hook" }, { url: "https://up.example.com/hook" }];
+    fetch.mockImplementation(async (url: string) => new Response("", { status: url.includes("down") ? 503 : 200 }));
+
+    const dispatcher = new WebhookDispatcher(client, {
+      targets,
+      fetch,
+      deadLetterFile,
+      retry: { maxAttempts: 2, baseDelay: 0 },
+    });
+    const failed = jest.fn();
+    dispatcher.on("failed", failed);
+
+    await dispatcher.poll();
+
+    expect(sent("https://down.example.com/hook")).toEqual([
+      "delivery:1",
+      "delivery:1",
+      "delivery:2",
+      "delivery:2",
+      "announcement:a1",
+      "announcement:a1",
+    ]);
+    expect(sent("https://up.example.com/hook")).toEqual(["delivery:1", "delivery:2", "announcement:a1"]);
+    expect(failed).toHaveBeenCalledTimes(3);
+
+    const [, , error] = failed.mock.calls[0];
+    expect(error).toBeInstanceOf(WebhookResponseError);
+    expect(error).toBeInstanceOf(BuildingLinkError);
+    expect(error).toMatchObject({ status: 503, url: "https://down.example.com/hook" });
+
+    const letters = readFileSync(deadLetterFile, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(letters[0]).toMatchObject({
+      url: "https://down.example.com/hook",
+      payload: { id: "delivery:1" },
+      error: "Webhook https://down.example.com/hook responded with status 503",
+      attempts: 2,
+    });
+
+    // Dead-lettered payloads aren't retried on the next poll
+    fetch.mockClear();
+    await dispatcher.poll();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("doesn't dead-letter a delivered payload when a listener throws", async () => {
+    const dispatcher = new WebhookDispatcher(client, {
+      targets: [{ url: "https://chat.example.com/hook", resources: ["delivery"] }],
+      fetch,
+    });
+    const failed = jest.fn();
+    dispatcher.on("failed", failed);
+    dispatcher.once("delivered", () => {
+      throw new Error("Listener failed");
+    });
+
+    await expect(dispatcher.poll()).rejects.toThrow("Listener failed");
+    expect(failed).not.toHaveBeenCalled();
+
+    // The payload was recorded before the listener ran, so it isn't sent again
+    await dispatcher.poll();
+    expect(sent("https://chat.example.com/hook")).toEqual(["delivery:1", "delivery:2"]);
+  });
+
+  it("doesn't retry payloads the target rejects", async () => {
+    fetch.mockResolvedValue(new Response("", { status: 400 }));
+    const dispatcher = new WebhookDispatcher(client, {
+      targets: [{ url: "https://chat.example.com/hook", resources: ["announcement"] }],
+      fetch,
+      retry: { baseDelay: 0 },
+    });
+
+    await dispatcher.poll();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.getDeliveries).not.toHaveBeenCalled();
+  });
+
+  it("skips existing items on a target's first poll when asked", async () => {
+    const dispatcher = new WebhookDispatcher(client, {
+      targets: [{ url: "https://chat.example.com/hook" }],
+      fetch,
+      skipExisting: true,
+    });
+
+    await dispatcher.poll();
+    expect(fetch).not.toHaveBeenCalled();
+
+    jest.spyOn(client, "getAnnouncements").mockResolvedValue([announcement("a1"), announcement("a2")]);
+    await dispatcher.poll();
+    expect(sent("https://chat.example.com/hook")).toEqual(["announcement:a2"]);
+  });
+
+  it("keeps sending the other items when one kind fails to fetch", async () => {
+    const failure = new Error("offline");
+    jest.spyOn(client, "getDeliveries").mockRejectedValue(failure);
+
+    const dispatcher = new WebhookDispatcher(client, { targets: [{ url: "https://chat.example.com/hook" }], fetch });
+
+    await expect(dispatcher.poll()).rejects.toBe(failure);
+    expect(sent("https://chat.example.com/hook")).toEqual(["announcement:a1"]);
+  });
+});
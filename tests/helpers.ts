@@ -0,0 +1,29 @@
+import type { BuildingLinkAnnouncement, BuildingLinkDelivery } from "../src";
+
+/**
+ * Fields of a fixture, nested objects included, all optional
+ */
+type FixtureFields<T> = { [K in keyof T]?: T[K] extends object ? Partial<T[K]> : T[K] };
+
+/**
+ * Builds a delivery with only the fields a test cares about
+ * @param Id - Delivery ID
+ * @param fields - Other fields of the delivery
+ * @returns The delivery
+ */
+export function delivery(Id: number, fields: FixtureFields<BuildingLinkDelivery> = {}): BuildingLinkDelivery {
+  return { Id, Description: `Delivery ${Id}`, ...fields } as BuildingLinkDelivery;
+}
+
+/**
+ * Builds an announcement with only the fields a test cares about
+ * @param id - Announcement ID
+ * @param fields - Other fields of the announcement
+ * @returns The announcement
+ */
+export function announcement(
+  id: string,
+  fields: FixtureFields<BuildingLinkAnnouncement> = {}
+): BuildingLinkAnnouncement {
+  return { id, body: "Water shut off", ...fields } as BuildingLinkAnnouncement;
+}